@@ -0,0 +1,92 @@
+import { WeatherCondition } from '../utils/weather.js';
+
+export interface WeatherFixture {
+  name: string;
+  latitude: number;
+  longitude: number;
+  monthlyTemperature: number[]; // mean °C, January to December
+  dailyRange: number; // °C between the coolest and warmest hour
+  humidity: number; // %
+  windSpeed: number; // m/s
+  windDirection: number; // degrees the wind blows from
+  conditions: WeatherCondition[]; // typical conditions, January to December
+}
+
+// Typical monthly weather for a few reference locations. Used by the fixture
+// weather provider so that development and test runs get stable values
+// without a network call; WEATHER_FIXTURE_PATH can point to a JSON file of
+// the same shape to replace them.
+export const WEATHER_FIXTURES: WeatherFixture[] = [
+  {
+    name: 'London',
+    latitude: 51.5074,
+    longitude: -0.1278,
+    monthlyTemperature: [5, 5, 7, 10, 13, 16, 19, 18, 16, 12, 8, 6],
+    dailyRange: 7,
+    humidity: 78,
+    windSpeed: 4.5,
+    windDirection: 225,
+    conditions: ['RAIN', 'CLOUDY', 'CLOUDY', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY',
+      'CLEAR', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'RAIN', 'RAIN', 'CLOUDY'],
+  },
+  {
+    name: 'New York',
+    latitude: 40.7128,
+    longitude: -74.006,
+    monthlyTemperature: [0, 2, 6, 12, 17, 22, 25, 25, 21, 14, 9, 3],
+    dailyRange: 8,
+    humidity: 63,
+    windSpeed: 4.8,
+    windDirection: 270,
+    conditions: ['SNOW', 'CLOUDY', 'PARTLY_CLOUDY', 'RAIN', 'PARTLY_CLOUDY', 'CLEAR',
+      'STORM', 'CLEAR', 'CLEAR', 'PARTLY_CLOUDY', 'CLOUDY', 'SNOW'],
+  },
+  {
+    name: 'Berlin',
+    latitude: 52.52,
+    longitude: 13.405,
+    monthlyTemperature: [1, 2, 5, 10, 14, 18, 20, 19, 15, 10, 5, 2],
+    dailyRange: 8,
+    humidity: 74,
+    windSpeed: 3.8,
+    windDirection: 250,
+    conditions: ['CLOUDY', 'SNOW', 'CLOUDY', 'PARTLY_CLOUDY', 'CLEAR', 'PARTLY_CLOUDY',
+      'STORM', 'CLEAR', 'PARTLY_CLOUDY', 'FOG', 'CLOUDY', 'CLOUDY'],
+  },
+  {
+    name: 'San Francisco',
+    latitude: 37.7749,
+    longitude: -122.4194,
+    monthlyTemperature: [11, 12, 13, 14, 15, 16, 17, 17, 18, 17, 14, 11],
+    dailyRange: 7,
+    humidity: 75,
+    windSpeed: 5.5,
+    windDirection: 280,
+    conditions: ['RAIN', 'RAIN', 'PARTLY_CLOUDY', 'CLEAR', 'FOG', 'FOG',
+      'FOG', 'FOG', 'CLEAR', 'CLEAR', 'PARTLY_CLOUDY', 'RAIN'],
+  },
+  {
+    name: 'Singapore',
+    latitude: 1.3521,
+    longitude: 103.8198,
+    monthlyTemperature: [27, 27, 28, 28, 29, 29, 28, 28, 28, 28, 27, 27],
+    dailyRange: 6,
+    humidity: 84,
+    windSpeed: 2.5,
+    windDirection: 45,
+    conditions: ['RAIN', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'STORM', 'STORM', 'PARTLY_CLOUDY',
+      'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'STORM', 'RAIN', 'RAIN'],
+  },
+  {
+    name: 'Sydney',
+    latitude: -33.8688,
+    longitude: 151.2093,
+    monthlyTemperature: [23, 23, 22, 19, 16, 14, 13, 14, 16, 18, 20, 22],
+    dailyRange: 7,
+    humidity: 65,
+    windSpeed: 4.2,
+    windDirection: 170,
+    conditions: ['CLEAR', 'PARTLY_CLOUDY', 'RAIN', 'PARTLY_CLOUDY', 'CLEAR', 'RAIN',
+      'CLEAR', 'CLEAR', 'CLEAR', 'PARTLY_CLOUDY', 'PARTLY_CLOUDY', 'STORM'],
+  },
+];
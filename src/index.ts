@@ -7,6 +7,8 @@ import morgan from 'morgan';
 import { errorHandler } from './middleware/errorHandler.js';
 import { authMiddleware } from './middleware/auth.js';
 import { initializeDatabase, disconnectDatabase } from './config/database.js';
+import { scheduleAbandonedRunCleanup } from './services/abandonedRuns.js';
+import { scheduleGoalSweep } from './services/goals.js';
 
 // Routes
 import authRoutes from './routes/auth.js';
@@ -18,6 +20,10 @@ import groupRoutes from './routes/groups.js';
 import leaderboardRoutes from './routes/leaderboard.js';
 import notificationRoutes from './routes/notifications.js';
 import messageRoutes from './routes/messages.js';
+import liveRoutes from './routes/live.js';
+import goalRoutes from './routes/goals.js';
+import gearRoutes from './routes/gear.js';
+import cronRoutes from './routes/cron.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -43,6 +49,8 @@ app.get('/api/health', (req, res) => {
 
 // Public routes
 app.use('/api/auth', authRoutes);
+app.use('/api/live', liveRoutes);
+app.use('/api/cron', cronRoutes);
 
 // Protected routes
 app.use('/api/users', authMiddleware, userRoutes);
@@ -53,6 +61,8 @@ app.use('/api/groups', authMiddleware, groupRoutes);
 app.use('/api/leaderboard', authMiddleware, leaderboardRoutes);
 app.use('/api/notifications', authMiddleware, notificationRoutes);
 app.use('/api/messages', authMiddleware, messageRoutes);
+app.use('/api/goals', authMiddleware, goalRoutes);
+app.use('/api/gear', authMiddleware, gearRoutes);
 
 // Error handler
 app.use(errorHandler);
@@ -74,9 +84,17 @@ async function startServer() {
       console.log(`📍 Health check: http://localhost:${PORT}/api/health`);
     });
 
+    // Close runs left open when the app died mid-run
+    const cleanupTimer = scheduleAbandonedRunCleanup();
+
+    // Re-check goals so behind-pace reminders don't wait for a run
+    const goalTimer = scheduleGoalSweep();
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       console.log(`\n${signal} received. Shutting down gracefully...`);
+      clearInterval(cleanupTimer);
+      clearInterval(goalTimer);
       server.close(async () => {
         await disconnectDatabase();
         console.log('👋 Server closed');
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { AppError } from '../middleware/errorHandler.js';
+import { cleanupAbandonedRuns } from '../services/abandonedRuns.js';
+import { refreshAllGoals } from '../services/goals.js';
+
+// Public, but guarded by CRON_SECRET so scheduled jobs can run where the
+// server doesn't stay up between requests (e.g. Vercel Cron)
+const router = Router();
+
+router.use((req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    throw new AppError('Unauthorized', 401);
+  }
+  next();
+});
+
+// Complete or discard runs abandoned mid-recording
+router.get('/abandoned-runs', async (req, res) => {
+  const result = await cleanupAbandonedRuns();
+
+  res.json(result);
+});
+
+// Refresh every active goal and send behind-pace reminders
+router.get('/goals', async (req, res) => {
+  const refreshed = await refreshAllGoals();
+
+  res.json({ refreshed });
+});
+
+export default router;
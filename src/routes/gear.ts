@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { validate } from '../middleware/validate.js';
+import { createGearSchema, gearQuerySchema, updateGearSchema } from '../validators/schemas.js';
+import {
+  defaultRetirementDistance,
+  refreshGearDistance,
+  serializeGear,
+  setDefaultGear,
+} from '../services/gear.js';
+import { getUnitSystem } from '../services/units.js';
+
+const router = Router();
+
+// Get user's gear
+router.get('/', validate(gearQuerySchema, 'query'), async (req, res) => {
+  const { includeRetired } = req.query as any;
+
+  const gear = await prisma.gear.findMany({
+    where: {
+      userId: req.userId,
+      ...(includeRetired !== 'true' && { isRetired: false }),
+    },
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const units = await getUnitSystem(req.userId!);
+
+  res.json(gear.map((item) => serializeGear(item, units)));
+});
+
+// Get gear with its recent runs
+router.get('/:id', async (req, res) => {
+  const gear = await prisma.gear.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+    include: {
+      runs: {
+        where: { isCompleted: true },
+        orderBy: { startTime: 'desc' },
+        take: 10,
+        select: { id: true, startTime: true, distance: true, duration: true, avgPace: true },
+      },
+      _count: { select: { runs: { where: { isCompleted: true } } } },
+    },
+  });
+
+  if (!gear) throw new AppError('Gear not found', 404);
+
+  const { runs, _count, ...item } = gear;
+  const units = await getUnitSystem(req.userId!);
+
+  res.json({ ...serializeGear(item, units), runCount: _count.runs, recentRuns: runs });
+});
+
+// Create gear
+router.post('/', validate(createGearSchema), async (req, res) => {
+  const { type, name, brand, model, initialDistance, retirementDistance, isDefault } = req.body;
+
+  // The first item becomes the default so new runs pick it up
+  const existing = await prisma.gear.count({ where: { userId: req.userId, isRetired: false } });
+
+  const gear = await prisma.gear.create({
+    data: {
+      userId: req.userId!,
+      type,
+      name,
+      brand,
+      model,
+      initialDistance,
+      distance: initialDistance,
+      retirementDistance: retirementDistance === undefined ? defaultRetirementDistance(type) : retirementDistance,
+    },
+  });
+
+  if (isDefault ?? existing === 0) await setDefaultGear(req.userId!, gear.id);
+
+  const units = await getUnitSystem(req.userId!);
+
+  res.json(serializeGear((await refreshGearDistance(gear.id))!, units));
+});
+
+// Update gear
+router.patch('/:id', validate(updateGearSchema), async (req, res) => {
+  const { name, brand, model, initialDistance, retirementDistance, isDefault, isRetired } = req.body;
+
+  const gear = await prisma.gear.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+  });
+
+  if (!gear) throw new AppError('Gear not found', 404);
+  if (isDefault && (isRetired ?? gear.isRetired)) {
+    throw new AppError('Retired gear cannot be the default', 400);
+  }
+
+  await prisma.gear.update({
+    where: { id: gear.id },
+    data: {
+      name,
+      brand,
+      model,
+      initialDistance,
+      retirementDistance,
+      ...(isRetired !== undefined && {
+        isRetired,
+        retiredAt: isRetired ? gear.retiredAt ?? new Date() : null,
+      }),
+      // Retired gear can't stay the default
+      ...((isRetired || isDefault === false) && { isDefault: false }),
+    },
+  });
+
+  if (isDefault) await setDefaultGear(req.userId!, gear.id);
+
+  const units = await getUnitSystem(req.userId!);
+
+  // Distance or threshold changes may cross the retirement distance
+  res.json(serializeGear((await refreshGearDistance(gear.id))!, units));
+});
+
+// Delete gear; its runs are kept without gear
+router.delete('/:id', async (req, res) => {
+  const gear = await prisma.gear.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+  });
+
+  if (!gear) throw new AppError('Gear not found', 404);
+
+  await prisma.gear.delete({ where: { id: gear.id } });
+
+  res.json({ success: true });
+});
+
+export default router;
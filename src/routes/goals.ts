@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { validate } from '../middleware/validate.js';
+import { createGoalSchema, updateGoalSchema } from '../validators/schemas.js';
+import { refreshGoal, refreshGoals, serializeGoal } from '../services/goals.js';
+import { getPeriodBounds } from '../utils/periods.js';
+
+const router = Router();
+
+// Get user's goals with current progress
+router.get('/', async (req, res) => {
+  const goals = await refreshGoals(req.userId!);
+
+  res.json(goals.map(serializeGoal));
+});
+
+// Create goal
+router.post('/', validate(createGoalSchema), async (req, res) => {
+  const { metric, period, target } = req.body;
+
+  const goal = await prisma.goal.create({
+    data: {
+      userId: req.userId!,
+      metric,
+      period,
+      target,
+      periodStart: getPeriodBounds(period).start,
+    },
+  });
+
+  res.json(serializeGoal(await refreshGoal(goal)));
+});
+
+// Update goal
+router.patch('/:id', validate(updateGoalSchema), async (req, res) => {
+  const { target, isActive } = req.body;
+
+  const goal = await prisma.goal.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+  });
+
+  if (!goal) throw new AppError('Goal not found', 404);
+
+  const updatedGoal = await prisma.goal.update({
+    where: { id: goal.id },
+    data: { target, isActive },
+  });
+
+  res.json(serializeGoal(updatedGoal.isActive ? await refreshGoal(updatedGoal) : updatedGoal));
+});
+
+// Delete goal
+router.delete('/:id', async (req, res) => {
+  const goal = await prisma.goal.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+  });
+
+  if (!goal) throw new AppError('Goal not found', 404);
+
+  await prisma.goal.delete({ where: { id: goal.id } });
+
+  res.json({ success: true });
+});
+
+export default router;
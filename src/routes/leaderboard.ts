@@ -1,80 +1,95 @@
 import { Router } from 'express';
 import { prisma } from '../config/database.js';
+import { getUnitSystem } from '../services/units.js';
+import { formatDistance } from '../utils/units.js';
 
 const router = Router();
 
-// Get leaderboard
-router.get('/', async (req, res) => {
-  const { period = 'week', metric = 'distance', limit = 50 } = req.query;
+// Only public runs count towards rankings everyone can see
+const LEADERBOARD_RUNS = { isCompleted: true, visibility: 'PUBLIC' as const };
 
-  let startDate: Date;
+// Public runs started within a leaderboard period
+function periodRunsWhere(period: unknown) {
   const now = new Date();
 
   switch (period) {
     case 'week':
-      startDate = new Date(now.setDate(now.getDate() - 7));
-      break;
+      return { ...LEADERBOARD_RUNS, startTime: { gte: new Date(now.setDate(now.getDate() - 7)) } };
     case 'month':
-      startDate = new Date(now.setMonth(now.getMonth() - 1));
-      break;
+      return { ...LEADERBOARD_RUNS, startTime: { gte: new Date(now.setMonth(now.getMonth() - 1)) } };
     default:
-      startDate = new Date(0);
+      return LEADERBOARD_RUNS;
   }
+}
+
+// Profiles of ranked users, keyed by id
+async function loadRankedUsers(userIds: string[]) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: {
+      id: true,
+      fullName: true,
+      username: true,
+      avatarUrl: true,
+    },
+  });
+  return new Map(users.map((user) => [user.id, user]));
+}
+
+// Get leaderboard
+router.get('/', async (req, res) => {
+  const { period = 'week', metric = 'distance', limit = 50 } = req.query;
 
   if (metric === 'distance') {
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        fullName: true,
-        username: true,
-        avatarUrl: true,
-        totalDistance: true,
-        runs: {
-          where: { isCompleted: true, createdAt: { gte: startDate } },
-          select: { distance: true },
-        },
-      },
-      orderBy: { totalDistance: 'desc' },
+    // Ranked from the runs themselves: stored totals include non-public runs
+    const totals = await prisma.run.groupBy({
+      by: ['userId'],
+      where: periodRunsWhere(period),
+      _sum: { distance: true },
+      orderBy: { _sum: { distance: 'desc' } },
       take: Number(limit),
     });
 
-    const leaderboard = users.map((user, index) => ({
-      rank: index + 1,
-      userId: user.id,
-      name: user.fullName,
-      username: user.username,
-      avatarUrl: user.avatarUrl,
-      value: period === 'all'
-        ? user.totalDistance
-        : user.runs.reduce((sum, run) => sum + run.distance, 0),
-    }));
+    const users = await loadRankedUsers(totals.map((total) => total.userId));
+    const units = await getUnitSystem(req.userId!);
+
+    const leaderboard = totals.map((total, index) => {
+      const user = users.get(total.userId)!;
+      const value = total._sum.distance ?? 0;
+      return {
+        rank: index + 1,
+        userId: user.id,
+        name: user.fullName,
+        username: user.username,
+        avatarUrl: user.avatarUrl,
+        value,
+        formattedValue: formatDistance(value, units),
+      };
+    });
 
     res.json(leaderboard);
   } else if (metric === 'runs') {
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        fullName: true,
-        username: true,
-        avatarUrl: true,
-        _count: {
-          select: {
-            runs: { where: { isCompleted: true, ...(period !== 'all' && { createdAt: { gte: startDate } }) } },
-          },
-        },
-      },
-      orderBy: { runs: { _count: 'desc' } },
+    const counts = await prisma.run.groupBy({
+      by: ['userId'],
+      where: periodRunsWhere(period),
+      _count: { id: true },
+      orderBy: { _count: { id: 'desc' } },
       take: Number(limit),
     });
 
-    const leaderboard = users.map((user, index) => ({
-      rank: index + 1,
-      userId: user.id,
-      name: user.fullName,
-      username: user.username,
-      avatarUrl: user.avatarUrl,
-      value: user._count.runs,
-    }));
+    const users = await loadRankedUsers(counts.map((count) => count.userId));
+
+    const leaderboard = counts.map((count, index) => {
+      const user = users.get(count.userId)!;
+      return {
+        rank: index + 1,
+        userId: user.id,
+        name: user.fullName,
+        username: user.username,
+        avatarUrl: user.avatarUrl,
+        value: count._count.id,
+      };
+    });
 
     res.json(leaderboard);
   } else {
@@ -104,18 +119,24 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Get user's rank
+// Get user's rank on the distance leaderboard
 router.get('/my-rank', async (req, res) => {
-  const user = await prisma.user.findUnique({
-    where: { id: req.userId },
-    select: { totalDistance: true },
+  const { period = 'all' } = req.query;
+  const where = periodRunsWhere(period);
+
+  const mine = await prisma.run.aggregate({
+    where: { ...where, userId: req.userId },
+    _sum: { distance: true },
   });
+  const totalDistance = mine._sum.distance ?? 0;
 
-  const rank = await prisma.user.count({
-    where: { totalDistance: { gt: user?.totalDistance || 0 } },
+  const ahead = await prisma.run.groupBy({
+    by: ['userId'],
+    where,
+    having: { distance: { _sum: { gt: totalDistance } } },
   });
 
-  res.json({ rank: rank + 1, totalDistance: user?.totalDistance || 0 });
+  res.json({ rank: ahead.length + 1, totalDistance });
 });
 
 export default router;
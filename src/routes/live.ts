@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import {
+  resolveLiveShare,
+  getLiveSnapshot,
+  subscribeToRun,
+  LiveEvent,
+} from '../services/liveTracking.js';
+
+// Public: spectators only need the share token, not an account
+const router = Router();
+
+// Latest snapshot of a shared run
+router.get('/:token', async (req, res) => {
+  const share = await resolveLiveShare(req.params.token);
+  const snapshot = await getLiveSnapshot(share.runId);
+
+  res.json(snapshot);
+});
+
+// Server-Sent Events stream of a shared run
+router.get('/:token/stream', async (req, res) => {
+  const share = await resolveLiveShare(req.params.token);
+  const snapshot = await getLiveSnapshot(share.runId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send('snapshot', snapshot);
+
+  // Keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  const unsubscribe = subscribeToRun(share.runId, (event: LiveEvent) => {
+    if (event.type === 'revoked') {
+      send('revoked', {});
+      res.end();
+      return;
+    }
+    send(event.type, event.snapshot);
+    if (event.type === 'completed') res.end();
+  });
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { validate } from '../middleware/validate.js';
@@ -9,15 +10,24 @@ import {
   addCommentSchema,
   paginationSchema,
   idParamSchema,
+  trackQuerySchema,
 } from '../validators/schemas.js';
+import { getUnitSystem, getUnitSystems } from '../services/units.js';
+import { getHiddenZones, getHiddenZonesByOwner } from '../services/privacyZones.js';
+import { canViewRun, getVisibleRunVisibilities } from '../services/runAccess.js';
+import { attachTrackShape, attachTrackShapes } from '../services/trackShape.js';
+import { hideLocation, hideRunLocations } from '../utils/privacyZones.js';
+import { describeRun, formatDistance } from '../utils/units.js';
 
 const router = Router();
 
 // Get feed posts (from following + own + nearby)
 router.get('/feed', validate(feedQuerySchema, 'query'), async (req, res) => {
-  const { cursor, limit, type } = req.query as any;
+  const { cursor, limit, type, includePoints, tolerance } = req.query as any;
+  const trackOptions = { includePoints: includePoints === 'true', tolerance };
+  const units = await getUnitSystem(req.userId!);
 
-  let whereClause: any = { isPublic: true };
+  const whereClause: Prisma.PostWhereInput = { isPublic: true };
 
   if (type === 'following') {
     // Get following list
@@ -66,29 +76,44 @@ router.get('/feed', validate(feedQuerySchema, 'query'), async (req, res) => {
           level: true,
         },
       },
-      run: {
-        include: {
-          coordinates: {
-            orderBy: { timestamp: 'asc' },
-            take: 100, // Limit coordinates for feed display
-          },
-        },
-      },
+      // The route is sent as its stored polyline
+      run: true,
       _count: { select: { likes: true, comments: true } },
     },
     orderBy: { createdAt: 'desc' },
     take: Number(limit),
-    ...(cursor && { cursor: { id: cursor as string }, skip: 1 }),
+    ...(cursor ? { cursor: { id: cursor as string }, skip: 1 } : {}),
   });
 
+  // Locations inside other users' privacy zones are hidden
+  const zonesByOwner = await getHiddenZonesByOwner(posts.map((post) => post.userId), req.userId!);
+
+  // Runs are only attached where their visibility allows it
+  const ownerIds = [...new Set(posts.map((post) => post.userId))];
+  const visibleRunsByOwner = new Map(
+    await Promise.all(
+      ownerIds.map(async (id) => [id, await getVisibleRunVisibilities(id, req.userId!)] as const)
+    )
+  );
+  const visibleRuns = posts.flatMap((post) =>
+    post.run && visibleRunsByOwner.get(post.userId)!.includes(post.run.visibility) ? [post.run] : []
+  );
+  const shapedRuns = new Map(
+    (await attachTrackShapes(visibleRuns, trackOptions, (run) => zonesByOwner.get(run.userId) ?? []))
+      .map((run) => [run.id, run])
+  );
+
   // Check if current user liked each post
   const postsWithLikeStatus = await Promise.all(
     posts.map(async (post) => {
       const liked = await prisma.like.findUnique({
         where: { userId_postId: { userId: req.userId!, postId: post.id } },
       });
+      const zones = zonesByOwner.get(post.userId) ?? [];
+      const run = post.runId && shapedRuns.get(post.runId);
       return {
-        ...post,
+        ...hideLocation(post, zones),
+        run: run ? { ...hideRunLocations(run, zones), display: describeRun(run, units) } : null,
         isLiked: !!liked,
         likesCount: (post as any)._count.likes,
         commentsCount: (post as any)._count.comments,
@@ -117,6 +142,9 @@ router.post('/', validate(createPostSchema), async (req, res) => {
     if (!run) {
       throw new AppError('Run not found or not completed', 404);
     }
+    if (run.visibility === 'PRIVATE') {
+      throw new AppError('Private runs cannot be shared', 400);
+    }
   }
 
   const post = await prisma.post.create({
@@ -139,11 +167,7 @@ router.post('/', validate(createPostSchema), async (req, res) => {
           avatarUrl: true,
         },
       },
-      run: {
-        include: {
-          coordinates: { orderBy: { timestamp: 'asc' } },
-        },
-      },
+      run: true,
       _count: { select: { likes: true, comments: true } },
     },
   });
@@ -155,23 +179,30 @@ router.post('/', validate(createPostSchema), async (req, res) => {
   });
 
   if (followers.length > 0) {
+    // Each follower sees the distance in their own units
+    const units = await getUnitSystems(followers.map((f) => f.followerId));
+
     await prisma.notification.createMany({
       data: followers.map((f) => ({
         userId: f.followerId,
         fromUserId: req.userId,
         type: 'LIKE' as const, // Using LIKE as a placeholder for new post
         title: 'New Post',
-        body: 'shared a new run',
+        body: post.run
+          ? `shared a ${formatDistance(post.run.distance, units.get(f.followerId) ?? 'METRIC')} run`
+          : 'shared a new run',
         postId: post.id,
       })),
     });
   }
 
-  res.json(post);
+  res.json({ ...post, run: post.run && (await attachTrackShape(post.run)) });
 });
 
 // Get post by ID with full details
-router.get('/:id', async (req, res) => {
+router.get('/:id', validate(trackQuerySchema, 'query'), async (req, res) => {
+  const { includePoints, tolerance } = req.query as any;
+
   const post = await prisma.post.findUnique({
     where: { id: req.params.id },
     include: {
@@ -187,8 +218,7 @@ router.get('/:id', async (req, res) => {
       },
       run: {
         include: {
-          coordinates: { orderBy: { timestamp: 'asc' } },
-          splits: { orderBy: { km: 'asc' } },
+          splits: { orderBy: [{ unit: 'asc' }, { km: 'asc' }] },
         },
       },
       comments: {
@@ -239,8 +269,18 @@ router.get('/:id', async (req, res) => {
     },
   });
 
+  const zones = await getHiddenZones(post.userId, req.userId!);
+  const isRunVisible = post.run && (await canViewRun(post.run, req.userId!));
+
   res.json({
-    ...post,
+    ...hideLocation(post, zones),
+    run: isRunVisible ? {
+      ...hideRunLocations(
+        await attachTrackShape(post.run!, { includePoints: includePoints === 'true', tolerance }, zones),
+        zones
+      ),
+      display: describeRun(post.run!, await getUnitSystem(req.userId!)),
+    } : null,
     isLiked: !!liked,
     isFollowingAuthor: !!isFollowing,
     likesCount: post._count.likes,
@@ -512,6 +552,8 @@ router.get('/:id/share', async (req, res) => {
           duration: true,
           avgPace: true,
           mapSnapshotUrl: true,
+          userId: true,
+          visibility: true,
         },
       },
     },
@@ -520,12 +562,17 @@ router.get('/:id/share', async (req, res) => {
   if (!post) throw new AppError('Post not found', 404);
   if (!post.isPublic) throw new AppError('Cannot share private post', 403);
 
+  const zones = await getHiddenZones(post.userId, req.userId!);
+  const isRunVisible = post.run && (await canViewRun(post.run, req.userId!));
+  const run = isRunVisible ? hideRunLocations(post.run!, zones) : null;
+  const units = await getUnitSystem(req.userId!);
+
   const shareData = {
     title: `${post.user.fullName}'s Run`,
-    text: post.run
-      ? `Check out this ${post.run.distance.toFixed(2)}km run!`
+    text: run
+      ? `Check out this ${formatDistance(run.distance, units)} run!`
       : post.caption || 'Check out this post!',
-    imageUrl: post.run?.mapSnapshotUrl || post.imageUrl,
+    imageUrl: run?.mapSnapshotUrl || post.imageUrl,
     url: `https://runner.app/posts/${post.id}`, // Placeholder URL
   };
 
@@ -1,16 +1,59 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { prisma } from '../config/database.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { validate } from '../middleware/validate.js';
 import {
   runsQuerySchema,
   runStatsQuerySchema,
+  trainingLoadQuerySchema,
   startRunSchema,
   addCoordinatesSchema,
   completeRunSchema,
   addRunPhotoSchema,
+  importGpxSchema,
+  manualRunSchema,
+  exportRunQuerySchema,
+  trimRunSchema,
+  mergeRunsSchema,
+  trackQuerySchema,
   idParamSchema,
+  updateRunSchema,
 } from '../validators/schemas.js';
+import { applyRunStatsChange, recordCompletedRun } from '../services/runCompletion.js';
+import { assertRunAccess, resolveRunVisibility, RUN_VISIBILITY_ORDER } from '../services/runAccess.js';
+import { rebuildRunSplits } from '../services/runSplits.js';
+import { recomputeRunFromTrack } from '../services/runRecompute.js';
+import { createLiveShare, endLiveShares, publishRunUpdate, revokeLiveShares } from '../services/liveTracking.js';
+import { getZoneBounds } from '../services/heartRate.js';
+import { recalculatePersonalRecords, updatePersonalRecords } from '../services/personalRecords.js';
+import { refreshGoals } from '../services/goals.js';
+import { getUnitSystem } from '../services/units.js';
+import { getAthleteProfile } from '../services/athleteProfile.js';
+import { resolveRunWeather } from '../services/weather.js';
+import { refreshGearDistances, resolveRunGear } from '../services/gear.js';
+import { getHiddenZones } from '../services/privacyZones.js';
+import { attachTrackShape } from '../services/trackShape.js';
+import { parseGpx } from '../utils/gpx.js';
+import { storedTrackShape } from '../utils/polyline.js';
+import { computeTrackStats, MIN_POINTS_FOR_TRACK_STATS } from '../utils/trackStats.js';
+import { estimatePaceCalories, estimateTrackCalories } from '../utils/calories.js';
+import { exportRun, EXPORT_CONTENT_TYPES, ExportFormat } from '../utils/runExport.js';
+import { filterCoordinates, DEFAULT_MAX_ACCURACY, DEFAULT_MAX_SPEED } from '../utils/gpsFilter.js';
+import { computeRunTiming, isWithinPause } from '../utils/pauses.js';
+import { analyzeHeartRate, ZONE_COUNT } from '../utils/heartRate.js';
+import { RECORD_DISTANCES, RECORD_LABELS } from '../utils/bestEfforts.js';
+import { buildLoadSeries, computeTrainingLoad, toDateKey, CHRONIC_DAYS } from '../utils/trainingLoad.js';
+import { describeRun } from '../utils/units.js';
+import { paceByTemperature } from '../utils/weather.js';
+import { hideRunLocations } from '../utils/privacyZones.js';
+import { buildElevationProfile, computeElevation } from '../utils/elevation.js';
+import {
+  compareProgress,
+  compareSplits,
+  routeProgress,
+  trackProgress,
+  ComparisonPoint,
+} from '../utils/runComparison.js';
 
 const router = Router();
 
@@ -25,22 +68,22 @@ router.get('/', validate(runsQuerySchema, 'query'), async (req, res) => {
   }
 
   if (startDate) {
-    whereClause.createdAt = {
-      ...whereClause.createdAt,
+    whereClause.startTime = {
+      ...whereClause.startTime,
       gte: new Date(startDate as string),
     };
   }
 
   if (endDate) {
-    whereClause.createdAt = {
-      ...whereClause.createdAt,
+    whereClause.startTime = {
+      ...whereClause.startTime,
       lte: new Date(endDate as string),
     };
   }
 
   const runs = await prisma.run.findMany({
     where: whereClause,
-    orderBy: { createdAt: 'desc' },
+    orderBy: { startTime: 'desc' },
     take: Number(limit),
     ...(cursor && { cursor: { id: cursor as string }, skip: 1 }),
     include: {
@@ -49,7 +92,9 @@ router.get('/', validate(runsQuerySchema, 'query'), async (req, res) => {
     },
   });
 
-  res.json(runs);
+  const units = await getUnitSystem(req.userId!);
+
+  res.json(runs.map((run) => ({ ...run, display: describeRun(run, units) })));
 });
 
 // Get run statistics summary
@@ -75,13 +120,15 @@ router.get('/stats', validate(runStatsQuerySchema, 'query'), async (req, res) =>
     where: {
       userId: req.userId,
       isCompleted: true,
-      ...(startDate && { createdAt: { gte: startDate } }),
+      ...(startDate && { startTime: { gte: startDate } }),
     },
-    orderBy: { createdAt: 'desc' },
+    orderBy: { startTime: 'desc' },
   });
 
   const totalDistance = runs.reduce((acc, run) => acc + run.distance, 0);
   const totalDuration = runs.reduce((acc, run) => acc + run.duration, 0);
+  const totalMovingTime = runs.reduce((acc, run) => acc + run.movingTime, 0);
+  const totalElapsedTime = runs.reduce((acc, run) => acc + run.elapsedTime, 0);
   const totalCalories = runs.reduce((acc, run) => acc + run.calories, 0);
   const totalElevation = runs.reduce((acc, run) => acc + run.elevationGain, 0);
 
@@ -99,36 +146,121 @@ router.get('/stats', validate(runStatsQuerySchema, 'query'), async (req, res) =>
     Infinity
   );
 
+  // Time in each heart rate zone across the period
+  const timeInZones = runs.reduce(
+    (acc, run) => acc.map((seconds, zone) => seconds + (run.hrZoneSeconds[zone] || 0)),
+    new Array(ZONE_COUNT).fill(0)
+  );
+
   // Group runs by day for chart data
   const runsByDay = runs.reduce((acc: Record<string, number>, run) => {
-    const date = run.createdAt.toISOString().split('T')[0];
+    const date = run.startTime.toISOString().split('T')[0];
     acc[date] = (acc[date] || 0) + run.distance;
     return acc;
   }, {});
 
+  const units = await getUnitSystem(req.userId!);
+
   res.json({
     totalRuns: runs.length,
     totalDistance,
     totalDuration,
+    totalMovingTime,
+    totalElapsedTime,
     totalCalories,
     totalElevation,
     avgPace,
     avgDistance: runs.length > 0 ? totalDistance / runs.length : 0,
     longestRun: longestRun.distance,
     fastestPace: fastestPace === Infinity ? 0 : fastestPace,
+    timeInZones,
     runsByDay,
+    paceByTemperature: paceByTemperature(runs, units).map((band) => ({
+      ...band,
+      display: describeRun(band, units),
+    })),
+    display: describeRun(
+      { distance: totalDistance, duration: totalDuration, avgPace, elevationGain: totalElevation },
+      units
+    ),
+  });
+});
+
+// Get daily training load with acute load, chronic load and form
+router.get('/stats/training-load', validate(trainingLoadQuerySchema, 'query'), async (req, res) => {
+  const { days } = req.query as any;
+
+  const to = new Date();
+  const from = new Date(to.getTime() - (Number(days) - 1) * 24 * 60 * 60 * 1000);
+
+  // Earlier runs warm up the chronic average so the series doesn't start at zero
+  const warmupStart = new Date(from.getTime() - CHRONIC_DAYS * 3 * 24 * 60 * 60 * 1000);
+
+  const [user, runs] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { maxHeartRate: true, restingHeartRate: true },
+    }),
+    prisma.run.findMany({
+      where: {
+        userId: req.userId,
+        isCompleted: true,
+        startTime: { gte: warmupStart },
+      },
+      select: { startTime: true, duration: true, avgPace: true, avgHeartRate: true, trainingLoad: true },
+    }),
+  ]);
+
+  const dailyLoads = new Map<string, number>();
+  for (const run of runs) {
+    const date = toDateKey(run.startTime);
+    const load = run.trainingLoad ?? computeTrainingLoad(run, {
+      maxHeartRate: user?.maxHeartRate ?? null,
+      restingHeartRate: user?.restingHeartRate ?? null,
+    });
+    dailyLoads.set(date, (dailyLoads.get(date) || 0) + load);
+  }
+
+  const series = buildLoadSeries(dailyLoads, from, to);
+  const today = series[series.length - 1];
+
+  res.json({
+    current: today ?? null,
+    series,
+  });
+});
+
+// Get personal records for standard distances
+router.get('/records', async (req, res) => {
+  const records = await prisma.personalRecord.findMany({
+    where: { userId: req.userId },
+    include: {
+      run: { select: { id: true, startTime: true, distance: true } },
+    },
   });
+
+  // Return in distance order rather than enum order from the database
+  const order = Object.keys(RECORD_DISTANCES);
+  records.sort((a, b) => order.indexOf(a.distance) - order.indexOf(b.distance));
+
+  res.json(records.map((record) => ({
+    ...record,
+    label: RECORD_LABELS[record.distance],
+    pace: record.time / 60 / RECORD_DISTANCES[record.distance],
+  })));
 });
 
 // Start a new run
 router.post('/start', validate(startRunSchema), async (req, res) => {
-  const { routeId, latitude, longitude } = req.body;
+  const { routeId, gearId, visibility, latitude, longitude } = req.body;
 
   // Create the run
   const run = await prisma.run.create({
     data: {
       userId: req.userId!,
       routeId,
+      gearId: await resolveRunGear(req.userId!, gearId),
+      visibility: await resolveRunVisibility(req.userId!, visibility),
       startTime: new Date(),
     },
   });
@@ -162,6 +294,208 @@ router.post('/start', validate(startRunSchema), async (req, res) => {
   res.json(run);
 });
 
+// Import a completed run from a GPX file (raw XML body or JSON { gpx })
+router.post(
+  '/import/gpx',
+  express.text({ type: ['application/gpx+xml', 'application/xml', 'text/xml'], limit: '10mb' }),
+  validate(importGpxSchema),
+  async (req, res) => {
+    const { gpx } = req.body;
+
+    const { points } = parseGpx(gpx);
+    if (points.length < 2) {
+      throw new AppError('GPX file must contain at least 2 timestamped track points', 400);
+    }
+
+    const startTime = points[0].timestamp;
+    const endTime = points[points.length - 1].timestamp;
+
+    // Reject re-imports of the same activity
+    const duplicate = await prisma.run.findFirst({
+      where: { userId: req.userId, startTime },
+    });
+    if (duplicate) throw new AppError('A run with this start time already exists', 409);
+
+    const stats = computeTrackStats(points);
+    // Imported tracks carry no pauses, so the whole span counts as moving,
+    // the same meaning recorded runs give movingTime
+    const timing = computeRunTiming(startTime, endTime, []);
+    const heartRate = analyzeHeartRate(points, await getZoneBounds(req.userId!));
+    const calories = estimateTrackCalories(points, await getAthleteProfile(req.userId!), stats.elevationGain);
+    const weather = await resolveRunWeather(null, points[0], startTime);
+
+    const run = await prisma.run.create({
+      data: {
+        userId: req.userId!,
+        gearId: await resolveRunGear(req.userId!, undefined),
+        visibility: await resolveRunVisibility(req.userId!),
+        startTime,
+        endTime,
+        ...stats,
+        ...heartRate,
+        calories,
+        movingTime: timing.movingTime,
+        elapsedTime: timing.elapsedTime,
+        isCompleted: true,
+        ...(weather && { weather: { ...weather } }),
+        ...storedTrackShape(points),
+        coordinates: {
+          createMany: {
+            data: points.map((point) => ({
+              latitude: point.latitude,
+              longitude: point.longitude,
+              altitude: point.altitude ?? null,
+              timestamp: point.timestamp,
+              heartRate: point.heartRate ?? null,
+            })),
+          },
+        },
+      },
+    });
+
+    const splits = await rebuildRunSplits(run.id, points);
+
+    await recordCompletedRun(req.userId!, run);
+
+    res.json({ ...run, splits, coordinatesCount: points.length });
+  }
+);
+
+// Log a completed run without GPS (treadmill, track)
+router.post('/manual', validate(manualRunSchema), async (req, res) => {
+  const {
+    startTime,
+    distance,
+    duration,
+    calories,
+    avgHeartRate,
+    maxHeartRate,
+    splits,
+    notes,
+    gearId,
+    visibility,
+  } = req.body;
+
+  const start = new Date(startTime);
+  if (start > new Date()) throw new AppError('Start time cannot be in the future', 400);
+
+  const run = await prisma.run.create({
+    data: {
+      userId: req.userId!,
+      gearId: await resolveRunGear(req.userId!, gearId),
+      visibility: await resolveRunVisibility(req.userId!, visibility),
+      startTime: start,
+      endTime: new Date(start.getTime() + duration * 1000),
+      distance,
+      duration,
+      movingTime: duration,
+      elapsedTime: duration,
+      avgPace: duration / 60 / distance,
+      calories: calories ?? estimatePaceCalories(distance, duration, await getAthleteProfile(req.userId!), start),
+      avgHeartRate,
+      maxHeartRate,
+      notes,
+      isManual: true,
+      isCompleted: true,
+      ...(splits?.length && {
+        splits: {
+          createMany: {
+            data: splits.map((split: any) => ({
+              km: split.km,
+              unit: split.unit,
+              time: split.time,
+              pace: split.pace,
+              elevation: split.elevation || 0,
+              avgHeartRate: split.avgHeartRate || null,
+            })),
+          },
+        },
+      }),
+    },
+    include: {
+      splits: { orderBy: [{ unit: 'asc' }, { km: 'asc' }] },
+    },
+  });
+
+  await recordCompletedRun(req.userId!, run);
+
+  res.json(run);
+});
+
+// Merge completed runs that belong to one workout into the earliest of them
+router.post('/merge', validate(mergeRunsSchema), async (req, res) => {
+  const { runIds } = req.body;
+
+  const runs = await prisma.run.findMany({
+    where: { id: { in: runIds }, userId: req.userId },
+    orderBy: { startTime: 'asc' },
+  });
+
+  if (runs.length !== runIds.length) throw new AppError('Run not found', 404);
+  if (runs.some((run) => !run.isCompleted)) throw new AppError('Only completed runs can be merged', 400);
+  if (runs.some((run) => run.isManual)) throw new AppError('Manual runs have no GPS track', 400);
+
+  const [target, ...absorbed] = runs;
+  const absorbedIds = absorbed.map((run) => run.id);
+
+  // The merged run is only as visible as its most restricted part
+  const visibility = RUN_VISIBILITY_ORDER.find((v) => runs.some((run) => run.visibility === v))!;
+
+  // The time between two parts of the workout counts as a pause
+  const gaps = runs.slice(1).flatMap((run, i) => {
+    const previousEnd = runs[i].endTime ?? runs[i].startTime;
+    if (run.startTime < previousEnd) throw new AppError('Runs overlap in time', 400);
+    return run.startTime > previousEnd
+      ? [{ runId: target.id, pausedAt: previousEnd, resumedAt: run.startTime }]
+      : [];
+  });
+
+  // Checked up front: the recompute after the merge can't be undone
+  const pointCount = await prisma.runCoordinate.count({ where: { runId: { in: runIds } } });
+  if (pointCount < 2) throw new AppError('Run needs at least 2 coordinates', 400);
+
+  await prisma.$transaction([
+    prisma.runCoordinate.updateMany({ where: { runId: { in: absorbedIds } }, data: { runId: target.id } }),
+    prisma.runPause.updateMany({ where: { runId: { in: absorbedIds } }, data: { runId: target.id } }),
+    prisma.runPause.createMany({ data: gaps }),
+    prisma.runPhoto.updateMany({ where: { runId: { in: absorbedIds } }, data: { runId: target.id } }),
+    prisma.post.updateMany({ where: { runId: { in: absorbedIds } }, data: { runId: target.id } }),
+    prisma.notification.updateMany({ where: { runId: { in: absorbedIds } }, data: { runId: target.id } }),
+    prisma.run.deleteMany({ where: { id: { in: absorbedIds } } }),
+    prisma.run.update({ where: { id: target.id }, data: { visibility } }),
+    // The absorbed runs leave the user's totals together with the runs themselves
+    prisma.user.update({
+      where: { id: req.userId },
+      data: {
+        totalDistance: { decrement: absorbed.reduce((acc, run) => acc + run.distance, 0) },
+        totalRuns: { decrement: absorbed.length },
+        totalTime: { decrement: absorbed.reduce((acc, run) => acc + run.duration, 0) },
+        xp: { decrement: absorbed.reduce((acc, run) => acc + Math.floor(run.distance * 10), 0) },
+      },
+    }),
+  ]);
+
+  // The target now stands for the whole workout
+  const mergedRun = await recomputeRunFromTrack(target.id);
+  await applyRunStatsChange(req.userId!, target, mergedRun);
+
+  await updatePersonalRecords(req.userId!, target.id);
+  await recalculatePersonalRecords(req.userId!);
+  await refreshGoals(req.userId!);
+  await refreshGearDistances(absorbed.map((run) => run.gearId));
+
+  const merged = await prisma.run.findUnique({
+    where: { id: target.id },
+    include: {
+      splits: { orderBy: [{ unit: 'asc' }, { km: 'asc' }] },
+      photos: { orderBy: { takenAt: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
+    },
+  });
+
+  res.json({ ...merged, mergedRunIds: absorbedIds });
+});
+
 // Pause/resume run
 router.post('/:id/pause', async (req, res) => {
   const { id } = req.params;
@@ -173,28 +507,97 @@ router.post('/:id/pause', async (req, res) => {
   if (!run) throw new AppError('Run not found', 404);
   if (run.isCompleted) throw new AppError('Run is already completed', 400);
 
+  const now = new Date();
+
+  // Record the pause interval: open one when pausing, close it when resuming
+  if (run.isPaused) {
+    await prisma.runPause.updateMany({
+      where: { runId: id, resumedAt: null },
+      data: { resumedAt: now },
+    });
+  } else {
+    await prisma.runPause.create({
+      data: { runId: id, pausedAt: now },
+    });
+  }
+
   const updatedRun = await prisma.run.update({
     where: { id },
     data: { isPaused: !run.isPaused },
+    include: { pauses: { orderBy: { pausedAt: 'asc' } } },
   });
 
-  res.json(updatedRun);
+  await publishRunUpdate(id);
+
+  res.json({
+    ...updatedRun,
+    ...computeRunTiming(updatedRun.startTime, now, updatedRun.pauses),
+  });
 });
 
 // Add coordinates to run (batch)
 router.post('/:id/coordinates', validate(addCoordinatesSchema), async (req, res) => {
   const { id } = req.params;
-  const { coordinates } = req.body;
+  const { coordinates, maxAccuracy, sequence, batchId } = req.body;
 
   const run = await prisma.run.findFirst({
     where: { id, userId: req.userId },
   });
 
   if (!run) throw new AppError('Run not found', 404);
+
+  // A retried batch is answered with the original result and not stored again
+  const batchKeys = [
+    ...(sequence !== undefined ? [{ sequence }] : []),
+    ...(batchId ? [{ batchId }] : []),
+  ];
+  if (batchKeys.length > 0) {
+    const existingBatch = await prisma.runCoordinateBatch.findFirst({
+      where: { runId: id, OR: batchKeys },
+    });
+    if (existingBatch) {
+      return res.json({ ...(existingBatch.response as object), duplicate: true });
+    }
+  }
+
   if (run.isCompleted) throw new AppError('Cannot add coordinates to completed run', 400);
 
-  // Validate and create coordinates
-  const coordsData = coordinates.map((coord: any) => ({
+  const incoming = coordinates.map((coord: any) => ({ ...coord, timestamp: new Date(coord.timestamp) }));
+  const timestamps = incoming.map((coord: any) => coord.timestamp);
+
+  // Filter GPS noise against what is already stored for this run
+  const [previous, existing, pauses] = await Promise.all([
+    prisma.runCoordinate.findFirst({
+      where: { runId: id },
+      orderBy: { timestamp: 'desc' },
+    }),
+    prisma.runCoordinate.findMany({
+      where: { runId: id, timestamp: { in: timestamps } },
+      select: { timestamp: true },
+    }),
+    prisma.runPause.findMany({ where: { runId: id } }),
+  ]);
+
+  const { accepted, rejected } = filterCoordinates(incoming, {
+    maxAccuracy: maxAccuracy ?? DEFAULT_MAX_ACCURACY,
+    maxSpeed: DEFAULT_MAX_SPEED,
+    previous,
+    existingTimestamps: new Set(existing.map((coord) => coord.timestamp.getTime())),
+  });
+
+  const result = {
+    success: true,
+    count: accepted.length,
+    accepted: accepted.length,
+    rejected: {
+      ...rejected,
+      total: rejected.accuracy + rejected.speed + rejected.duplicate,
+    },
+    ...(sequence !== undefined && { sequence }),
+    ...(batchId && { batchId }),
+  };
+
+  const coordsData = accepted.map((coord: any) => ({
     runId: id,
     latitude: coord.latitude,
     longitude: coord.longitude,
@@ -202,26 +605,128 @@ router.post('/:id/coordinates', validate(addCoordinatesSchema), async (req, res)
     speed: coord.speed || null,
     accuracy: coord.accuracy || null,
     heading: coord.heading || null,
-    timestamp: new Date(coord.timestamp),
+    timestamp: coord.timestamp,
     heartRate: coord.heartRate || null,
+    isPaused: isWithinPause(coord.timestamp, pauses),
   }));
 
-  await prisma.runCoordinate.createMany({
-    data: coordsData,
-  });
+  // Store the batch marker and its coordinates together so a concurrent retry
+  // either sees both or neither
+  try {
+    await prisma.$transaction([
+      ...(batchKeys.length > 0
+        ? [prisma.runCoordinateBatch.create({
+            data: { runId: id, sequence, batchId, response: result },
+          })]
+        : []),
+      prisma.runCoordinate.createMany({ data: coordsData }),
+    ]);
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.json({ ...result, duplicate: true });
+    }
+    throw error;
+  }
 
   // Update user's last known location
-  const lastCoord = coordinates[coordinates.length - 1];
-  await prisma.user.update({
-    where: { id: req.userId },
-    data: {
-      latitude: lastCoord.latitude,
-      longitude: lastCoord.longitude,
-      lastLocationUpdate: new Date(),
-    },
+  if (accepted.length > 0) {
+    const lastCoord = accepted[accepted.length - 1];
+    await prisma.user.update({
+      where: { id: req.userId },
+      data: {
+        latitude: lastCoord.latitude,
+        longitude: lastCoord.longitude,
+        lastLocationUpdate: new Date(),
+      },
+    });
+
+    await publishRunUpdate(id);
+  }
+
+  res.json(result);
+});
+
+// Create a live tracking link for a run in progress
+router.post('/:id/live-share', async (req, res) => {
+  const { id } = req.params;
+
+  const run = await prisma.run.findFirst({
+    where: { id, userId: req.userId },
   });
 
-  res.json({ success: true, count: coordinates.length });
+  if (!run) throw new AppError('Run not found', 404);
+  if (run.isCompleted) throw new AppError('Run is already completed', 400);
+
+  const share = await createLiveShare(id);
+
+  res.json({
+    token: share.token,
+    url: `https://runner.app/live/${share.token}`, // Placeholder URL
+    streamPath: `/api/live/${share.token}/stream`,
+    createdAt: share.createdAt,
+  });
+});
+
+// Revoke all live tracking links of a run
+router.delete('/:id/live-share', async (req, res) => {
+  const { id } = req.params;
+
+  const run = await prisma.run.findFirst({
+    where: { id, userId: req.userId },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  await revokeLiveShares(id);
+
+  res.json({ success: true });
+});
+
+// Upload progress, so an offline client can resume after the last batch received
+router.get('/:id/coordinates/sync', async (req, res) => {
+  const { id } = req.params;
+
+  const run = await prisma.run.findFirst({
+    where: { id, userId: req.userId },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  const [sequencedBatches, batchCount, lastCoordinate, coordinatesCount] = await Promise.all([
+    prisma.runCoordinateBatch.findMany({
+      where: { runId: id, sequence: { not: null } },
+      orderBy: { sequence: 'asc' },
+      select: { sequence: true },
+    }),
+    prisma.runCoordinateBatch.count({ where: { runId: id } }),
+    prisma.runCoordinate.findFirst({
+      where: { runId: id },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    }),
+    prisma.runCoordinate.count({ where: { runId: id } }),
+  ]);
+
+  // lastSequence is the end of the gap-free run of batches from the first
+  // one, so a client resuming after it also re-sends batches that failed
+  // while later ones got through; those are listed in missingSequences
+  const sequences = sequencedBatches.map((batch) => batch.sequence!);
+  let lastSequence = sequences.length > 0 ? sequences[0] : null;
+  const missingSequences: number[] = [];
+  for (let i = 1; i < sequences.length; i++) {
+    for (let missing = sequences[i - 1] + 1; missing < sequences[i]; missing++) missingSequences.push(missing);
+    if (missingSequences.length === 0) lastSequence = sequences[i];
+  }
+
+  res.json({
+    runId: id,
+    isCompleted: run.isCompleted,
+    lastSequence,
+    missingSequences,
+    batchesReceived: batchCount,
+    coordinatesCount,
+    lastTimestamp: lastCoordinate?.timestamp ?? null,
+  });
 });
 
 // Complete run with full stats
@@ -233,54 +738,113 @@ router.post('/:id/complete', validate(completeRunSchema), async (req, res) => {
     avgPace,
     maxPace,
     minPace,
-    calories,
     elevation,
     elevationGain,
     elevationLoss,
     splits,
     weather,
+    gearId,
+    visibility,
     mapSnapshotUrl,
   } = req.body;
 
   const run = await prisma.run.findFirst({
     where: { id, userId: req.userId },
-    include: { coordinates: true },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
+    },
   });
 
   if (!run) throw new AppError('Run not found', 404);
   if (run.isCompleted) throw new AppError('Run is already completed', 400);
 
-  // Update the run
-  const updatedRun = await prisma.run.update({
-    where: { id },
+  const endTime = new Date();
+
+  // Close a pause left open when the run was finished while paused
+  const pauses = run.pauses.map((pause) => ({ ...pause, resumedAt: pause.resumedAt ?? endTime }));
+  await prisma.runPause.updateMany({
+    where: { runId: id, resumedAt: null },
+    data: { resumedAt: endTime },
+  });
+
+  const timing = computeRunTiming(run.startTime, endTime, pauses);
+
+  // Stats are computed from the recorded track; the client's values are only
+  // a fallback when there are too few points to derive them
+  const statsSource = run.coordinates.length >= MIN_POINTS_FOR_TRACK_STATS ? 'server' : 'client';
+  const stats = statsSource === 'server'
+    ? computeTrackStats(run.coordinates, pauses)
+    : {
+        distance: distance || 0,
+        duration: duration || 0,
+        avgPace: avgPace || 0,
+        maxPace: maxPace || 0,
+        minPace: minPace || 0,
+        elevation: elevation || 0,
+        elevationGain: elevationGain || 0,
+        elevationLoss: elevationLoss || 0,
+      };
+
+  const heartRate = analyzeHeartRate(run.coordinates, await getZoneBounds(req.userId!), pauses);
+
+  // Energy comes from the runner's profile rather than the client's estimate
+  const profile = await getAthleteProfile(req.userId!);
+  const calories = statsSource === 'server'
+    ? estimateTrackCalories(run.coordinates, profile, stats.elevationGain, pauses)
+    : estimatePaceCalories(stats.distance, stats.duration, profile, run.startTime);
+
+  // Gear can still be chosen or changed when finishing
+  const runGearId = gearId === undefined ? run.gearId : await resolveRunGear(req.userId!, gearId);
+
+  // Weather at the start of the run, from the app or the weather provider
+  const runWeather = await resolveRunWeather(weather, run.coordinates[0], run.startTime);
+
+  // Only one of this request and the abandoned-run sweep may complete the run
+  const { count } = await prisma.run.updateMany({
+    where: { id, isCompleted: false },
     data: {
-      endTime: new Date(),
-      distance: distance || 0,
-      duration: duration || 0,
-      avgPace: avgPace || 0,
-      maxPace: maxPace || 0,
-      minPace: minPace || 0,
-      calories: calories || 0,
-      elevation: elevation || 0,
-      elevationGain: elevationGain || 0,
-      elevationLoss: elevationLoss || 0,
+      endTime,
+      movingTime: timing.movingTime,
+      elapsedTime: timing.elapsedTime,
+      distance: stats.distance,
+      duration: stats.duration,
+      avgPace: stats.avgPace,
+      maxPace: stats.maxPace,
+      minPace: stats.minPace,
+      calories,
+      elevation: stats.elevation,
+      elevationGain: stats.elevationGain,
+      elevationLoss: stats.elevationLoss,
+      ...heartRate,
       isCompleted: true,
       isPaused: false,
-      weather,
+      ...(runWeather && { weather: { ...runWeather } }),
+      gearId: runGearId,
+      visibility,
       mapSnapshotUrl,
+      ...storedTrackShape(run.coordinates),
     },
+  });
+  if (count === 0) throw new AppError('Run is already completed', 400);
+
+  const updatedRun = (await prisma.run.findUnique({
+    where: { id },
     include: {
       coordinates: { orderBy: { timestamp: 'asc' } },
-      splits: { orderBy: { km: 'asc' } },
     },
-  });
+  }))!;
 
-  // Create splits if provided
-  if (splits?.length) {
+  // Splits are generated from the track; client splits are only kept when
+  // the track is too short to derive them
+  if (statsSource === 'server') {
+    await rebuildRunSplits(id, run.coordinates, pauses);
+  } else if (splits?.length) {
     await prisma.runSplit.createMany({
       data: splits.map((split: any) => ({
         runId: id,
         km: split.km,
+        unit: split.unit,
         time: split.time,
         pace: split.pace,
         elevation: split.elevation || 0,
@@ -289,58 +853,21 @@ router.post('/:id/complete', validate(completeRunSchema), async (req, res) => {
     });
   }
 
-  // Update user stats
-  const user = await prisma.user.update({
-    where: { id: req.userId },
-    data: {
-      totalDistance: { increment: distance || 0 },
-      totalRuns: { increment: 1 },
-      totalTime: { increment: duration || 0 },
-      xp: { increment: Math.floor((distance || 0) * 10) },
-      isCurrentlyRunning: false,
-      currentRunId: null,
-    },
-  });
-
-  // Calculate and update level
-  const newLevel = Math.floor(user.xp / 1000) + 1;
-  if (newLevel > user.level) {
-    await prisma.user.update({
-      where: { id: req.userId },
-      data: { level: newLevel },
-    });
-
-    // Create level up notification
-    await prisma.notification.create({
-      data: {
-        userId: req.userId!,
-        type: 'ACHIEVEMENT',
-        title: 'Level Up!',
-        body: `Congratulations! You reached level ${newLevel}`,
-        runId: id,
-      },
-    });
-  }
-
-  // Check achievements
-  await checkAchievements(req.userId!, distance || 0, updatedRun);
+  await recordCompletedRun(req.userId!, updatedRun);
+  await endLiveShares(id);
 
-  // Create completion notification
-  await prisma.notification.create({
-    data: {
-      userId: req.userId!,
-      type: 'RUN_COMPLETED',
-      title: 'Run Completed',
-      body: `Great job! You ran ${(distance || 0).toFixed(2)} km`,
-      runId: id,
-    },
+  const runSplits = await prisma.runSplit.findMany({
+    where: { runId: id },
+    orderBy: [{ unit: 'asc' }, { km: 'asc' }],
   });
 
-  res.json(updatedRun);
+  res.json({ ...updatedRun, splits: runSplits, statsSource });
 });
 
 // Get run by ID with full details
-router.get('/:id', async (req, res) => {
+router.get('/:id', validate(trackQuerySchema, 'query'), async (req, res) => {
+  const { includePoints, tolerance } = req.query as any;
+
   const run = await prisma.run.findUnique({
     where: { id: req.params.id },
     include: {
@@ -359,9 +886,18 @@ router.get('/:id', async (req, res) => {
           difficulty: true,
         },
       },
-      coordinates: { orderBy: { timestamp: 'asc' } },
-      splits: { orderBy: { km: 'asc' } },
+      gear: {
+        select: {
+          id: true,
+          type: true,
+          name: true,
+          brand: true,
+          model: true,
+        },
+      },
+      splits: { orderBy: [{ unit: 'asc' }, { km: 'asc' }] },
       photos: { orderBy: { takenAt: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
       posts: {
         include: {
           _count: { select: { likes: true, comments: true } },
@@ -373,26 +909,282 @@ router.get('/:id', async (req, res) => {
   if (!run) throw new AppError('Run not found', 404);
 
   // Check access
-  if (run.userId !== req.userId) {
-    const user = await prisma.user.findUnique({
-      where: { id: run.userId },
+  await assertRunAccess(run, req.userId!);
+
+  const zones = await getHiddenZones(run.userId, req.userId!);
+  const shaped = {
+    ...hideRunLocations(
+      await attachTrackShape(run, { includePoints: includePoints === 'true', tolerance }, zones),
+      zones
+    ),
+    display: describeRun(run, await getUnitSystem(req.userId!)),
+  };
+
+  // Timing of a run in progress is computed up to now
+  if (!run.isCompleted) {
+    return res.json({ ...shaped, ...computeRunTiming(run.startTime, new Date(), run.pauses) });
+  }
+
+  res.json(shaped);
+});
+
+// Export run as GPX, TCX or GeoJSON
+router.get('/:id/export', validate(exportRunQuerySchema, 'query'), async (req, res) => {
+  const { format } = req.query as any;
+
+  const run = await prisma.run.findUnique({
+    where: { id: req.params.id },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      splits: { orderBy: [{ unit: 'asc' }, { km: 'asc' }] },
+      photos: { orderBy: { takenAt: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  await assertRunAccess(run, req.userId!);
+
+  if (run.isManual) throw new AppError('Manual runs have no GPS track to export', 400);
+
+  const visibleRun = hideRunLocations(run, await getHiddenZones(run.userId, req.userId!));
+  const fileName = `run-${run.startTime.toISOString().split('T')[0]}-${run.id}.${format}`;
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format as ExportFormat]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(exportRun(visibleRun, format));
+});
+
+// Compare two runs side by side; deltas are the second run minus the first
+router.get('/:id/compare/:otherId', async (req, res) => {
+  const { id, otherId } = req.params;
+  if (id === otherId) throw new AppError('Choose two different runs', 400);
+
+  const include = {
+    coordinates: { orderBy: { timestamp: 'asc' as const } },
+    pauses: true,
+    splits: { orderBy: [{ unit: 'asc' as const }, { km: 'asc' as const }] },
+  };
+  const [runA, runB] = await Promise.all([
+    prisma.run.findUnique({ where: { id }, include }),
+    prisma.run.findUnique({ where: { id: otherId }, include }),
+  ]);
+
+  if (!runA || !runB) throw new AppError('Run not found', 404);
+  await assertRunAccess(runA, req.userId!);
+  await assertRunAccess(runB, req.userId!);
+  if (!runA.isCompleted || !runB.isCompleted) throw new AppError('Run is not completed', 400);
+  if (runA.isManual || runB.isManual) throw new AppError('Manual runs have no GPS track', 400);
+
+  // Runs of the same route line up on the route itself; otherwise on each
+  // run's own distance from the start
+  let alignment: 'route' | 'distance' = 'distance';
+  let points: ComparisonPoint[] = [];
+
+  if (runA.routeId && runA.routeId === runB.routeId) {
+    const route = await prisma.routeCoordinate.findMany({
+      where: { routeId: runA.routeId },
+      orderBy: { order: 'asc' },
     });
-    if (!user?.isPublic) {
-      const isFollowing = await prisma.follow.findUnique({
-        where: {
-          followerId_followingId: {
-            followerId: req.userId!,
-            followingId: run.userId,
-          },
-        },
-      });
-      if (!isFollowing) {
-        throw new AppError('Access denied', 403);
-      }
+    points = compareProgress(
+      routeProgress(runA.coordinates, route, runA.pauses),
+      routeProgress(runB.coordinates, route, runB.pauses)
+    );
+    if (points.length > 0) alignment = 'route';
+  }
+
+  if (alignment === 'distance') {
+    points = compareProgress(
+      trackProgress(runA.coordinates, runA.pauses),
+      trackProgress(runB.coordinates, runB.pauses)
+    );
+  }
+
+  const summarize = (run: typeof runA) => ({
+    id: run.id,
+    startTime: run.startTime,
+    distance: run.distance,
+    duration: run.duration,
+    avgPace: run.avgPace,
+    avgHeartRate: run.avgHeartRate,
+  });
+
+  res.json({
+    alignment,
+    runs: [summarize(runA), summarize(runB)],
+    distance: points.length > 0 ? points[points.length - 1].distance : 0,
+    gap: points.length > 0 ? points[points.length - 1].gap : 0,
+    paceDelta: runB.avgPace - runA.avgPace,
+    heartRateDelta: runA.avgHeartRate != null && runB.avgHeartRate != null
+      ? runB.avgHeartRate - runA.avgHeartRate
+      : null,
+    points,
+    splits: compareSplits(runA.splits, runB.splits),
+  });
+});
+
+// Heart rate analysis of a run using the owner's current zones
+router.get('/:id/heart-rate', async (req, res) => {
+  const run = await prisma.run.findUnique({
+    where: { id: req.params.id },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: true,
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  await assertRunAccess(run, req.userId!);
+
+  if (run.isManual) throw new AppError('Manual runs have no heart rate samples', 400);
+
+  const bounds = await getZoneBounds(run.userId);
+  const analysis = analyzeHeartRate(run.coordinates, bounds, run.pauses);
+
+  const totalSeconds = analysis.hrZoneSeconds.reduce((sum, seconds) => sum + seconds, 0);
+
+  res.json({
+    avgHeartRate: analysis.avgHeartRate,
+    maxHeartRate: analysis.maxHeartRate,
+    cardiacDrift: analysis.cardiacDrift,
+    zones: analysis.hrZoneSeconds.map((seconds, zone) => ({
+      zone: zone + 1,
+      minHeartRate: zone === 0 ? null : bounds[zone - 1],
+      maxHeartRate: zone === ZONE_COUNT - 1 ? null : bounds[zone] - 1,
+      seconds,
+      percent: totalSeconds > 0 ? Math.round((seconds / totalSeconds) * 1000) / 10 : 0,
+    })),
+  });
+});
+
+// Elevation profile of a run as distance/altitude pairs for charting
+router.get('/:id/elevation', async (req, res) => {
+  const run = await prisma.run.findUnique({
+    where: { id: req.params.id },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: true,
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  await assertRunAccess(run, req.userId!);
+
+  if (run.isManual) throw new AppError('Manual runs have no GPS track', 400);
+
+  const { highest, lowest, gain, loss } = computeElevation(run.coordinates);
+
+  res.json({
+    highest,
+    lowest,
+    elevationGain: gain,
+    elevationLoss: loss,
+    points: buildElevationProfile(run.coordinates, run.pauses),
+  });
+});
+
+// Regenerate km and mile splits from the recorded coordinates
+router.post('/:id/splits/regenerate', async (req, res) => {
+  const { id } = req.params;
+
+  const run = await prisma.run.findFirst({
+    where: { id, userId: req.userId },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: true,
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+  if (!run.isCompleted) throw new AppError('Run is not completed', 400);
+  if (run.isManual) throw new AppError('Manual runs have no GPS track', 400);
+  if (run.coordinates.length < 2) {
+    throw new AppError('Run has too few coordinates to generate splits', 400);
+  }
+
+  const splits = await rebuildRunSplits(id, run.coordinates, run.pauses);
+
+  res.json(splits);
+});
+
+// Trim a completed run to a time or coordinate window and recompute it
+router.post('/:id/trim', validate(trimRunSchema), async (req, res) => {
+  const { id } = req.params;
+  const { startTime, endTime, startIndex, endIndex } = req.body;
+
+  const run = await prisma.run.findFirst({
+    where: { id, userId: req.userId },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' }, select: { id: true, timestamp: true } },
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+  if (!run.isCompleted) throw new AppError('Run is not completed', 400);
+  if (run.isManual) throw new AppError('Manual runs have no GPS track', 400);
+
+  const { coordinates } = run;
+  let from = 0;
+  let to = coordinates.length - 1;
+
+  if (startIndex !== undefined || endIndex !== undefined) {
+    from = startIndex ?? from;
+    to = endIndex ?? to;
+  } else {
+    if (startTime) {
+      const start = new Date(startTime).getTime();
+      from = coordinates.findIndex((c) => c.timestamp.getTime() >= start);
+    }
+    if (endTime) {
+      const end = new Date(endTime).getTime();
+      while (to >= 0 && coordinates[to].timestamp.getTime() > end) to--;
     }
   }
 
-  res.json(run);
+  if (from < 0 || to >= coordinates.length || to - from < 1) {
+    throw new AppError('Trim window must keep at least 2 coordinates', 400);
+  }
+  if (from === 0 && to === coordinates.length - 1) {
+    throw new AppError('Trim window covers the whole run', 400);
+  }
+
+  const newStart = coordinates[from].timestamp;
+  const newEnd = coordinates[to].timestamp;
+  const removed = [...coordinates.slice(0, from), ...coordinates.slice(to + 1)].map((c) => c.id);
+
+  await prisma.$transaction([
+    prisma.runCoordinate.deleteMany({ where: { id: { in: removed } } }),
+    // Drop pauses outside the window and clip the ones straddling its edges
+    prisma.runPause.deleteMany({
+      where: { runId: id, OR: [{ resumedAt: { lte: newStart } }, { pausedAt: { gte: newEnd } }] },
+    }),
+    prisma.runPause.updateMany({
+      where: { runId: id, pausedAt: { lt: newStart } },
+      data: { pausedAt: newStart },
+    }),
+    prisma.runPause.updateMany({
+      where: { runId: id, resumedAt: { gt: newEnd } },
+      data: { resumedAt: newEnd },
+    }),
+  ]);
+
+  const updatedRun = await recomputeRunFromTrack(id);
+
+  await applyRunStatsChange(req.userId!, run, updatedRun);
+
+  // Trimming can only shorten efforts, so rebuild records from what is left
+  await updatePersonalRecords(req.userId!, id);
+  await recalculatePersonalRecords(req.userId!);
+  await refreshGoals(req.userId!);
+
+  const splits = await prisma.runSplit.findMany({
+    where: { runId: id },
+    orderBy: [{ unit: 'asc' }, { km: 'asc' }],
+  });
+
+  res.json({ ...updatedRun, splits, removedCoordinates: removed.length });
 });
 
 // Add photo to run
@@ -419,6 +1211,24 @@ router.post('/:id/photos', validate(addRunPhotoSchema), async (req, res) => {
   res.json(photo);
 });
 
+// Update run settings
+router.patch('/:id', validate(updateRunSchema), async (req, res) => {
+  const { visibility, notes } = req.body;
+
+  const run = await prisma.run.findFirst({
+    where: { id: req.params.id, userId: req.userId },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  const updatedRun = await prisma.run.update({
+    where: { id: run.id },
+    data: { visibility, notes },
+  });
+
+  res.json(updatedRun);
+});
+
 // Delete run
 router.delete('/:id', async (req, res) => {
   const { id } = req.params;
@@ -444,84 +1254,15 @@ router.delete('/:id', async (req, res) => {
 
   await prisma.run.delete({ where: { id } });
 
+  // The deleted run may have held a record, counted towards a goal or added
+  // distance to gear
+  if (run.isCompleted) {
+    await recalculatePersonalRecords(req.userId!);
+    await refreshGoals(req.userId!);
+    await refreshGearDistances([run.gearId]);
+  }
+
   res.json({ success: true });
 });
 
-// Helper: Check and award achievements
-async function checkAchievements(userId: string, runDistance: number, run: any) {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    include: {
-      achievements: true,
-    },
-  });
-
-  if (!user) return;
-
-  const achievements = await prisma.achievement.findMany();
-
-  for (const achievement of achievements) {
-    // Skip if already unlocked
-    const existing = user.achievements.find(a => a.achievementId === achievement.id);
-    if (existing?.unlockedAt) continue;
-
-    let progress = 0;
-    let shouldUnlock = false;
-
-    switch (achievement.type) {
-      case 'TOTAL_DISTANCE':
-        progress = user.totalDistance;
-        shouldUnlock = user.totalDistance >= achievement.threshold;
-        break;
-      case 'TOTAL_RUNS':
-        progress = user.totalRuns;
-        shouldUnlock = user.totalRuns >= achievement.threshold;
-        break;
-      case 'SINGLE_RUN_DISTANCE':
-        progress = runDistance;
-        shouldUnlock = runDistance >= achievement.threshold;
-        break;
-      case 'SINGLE_RUN_PACE':
-        progress = run.avgPace;
-        shouldUnlock = run.avgPace > 0 && run.avgPace <= achievement.threshold;
-        break;
-    }
-
-    // Update or create achievement progress
-    await prisma.userAchievement.upsert({
-      where: {
-        userId_achievementId: { userId, achievementId: achievement.id },
-      },
-      create: {
-        userId,
-        achievementId: achievement.id,
-        progress,
-        unlockedAt: shouldUnlock ? new Date() : null,
-      },
-      update: {
-        progress,
-        unlockedAt: shouldUnlock ? new Date() : undefined,
-      },
-    });
-
-    // Award XP and notify if unlocked
-    if (shouldUnlock && !existing?.unlockedAt) {
-      await prisma.user.update({
-        where: { id: userId },
-        data: { xp: { increment: achievement.xpReward } },
-      });
-
-      await prisma.notification.create({
-        data: {
-          userId,
-          type: 'ACHIEVEMENT',
-          title: 'Achievement Unlocked!',
-          body: `You earned "${achievement.name}"`,
-          data: { achievementId: achievement.id },
-        },
-      });
-    }
-  }
-}
-
 export default router;
@@ -9,7 +9,14 @@ import {
   searchUsersQuerySchema,
   paginationSchema,
   idParamSchema,
+  privacyZoneSchema,
+  updatePrivacyZoneSchema,
 } from '../validators/schemas.js';
+import { getHiddenZones, MAX_PRIVACY_ZONES } from '../services/privacyZones.js';
+import { getVisibleRunVisibilities, visibleRunsWhere } from '../services/runAccess.js';
+import { attachTrackShapes } from '../services/trackShape.js';
+import { hidePrivateAthleteFields } from '../utils/athleteProfile.js';
+import { hideLocation, hideRunLocations } from '../utils/privacyZones.js';
 
 const router = Router();
 
@@ -47,7 +54,7 @@ router.get('/me', async (req, res) => {
     where: {
       userId: req.userId,
       isCompleted: true,
-      createdAt: { gte: oneWeekAgo },
+      startTime: { gte: oneWeekAgo },
     },
   });
 
@@ -66,7 +73,41 @@ router.get('/me', async (req, res) => {
 
 // Update current user profile
 router.patch('/me', validate(updateProfileSchema), async (req, res) => {
-  const { fullName, username, bio, location, isPublic, avatarUrl, isLocationPublic } = req.body;
+  const {
+    fullName,
+    username,
+    bio,
+    location,
+    isPublic,
+    defaultRunVisibility,
+    avatarUrl,
+    isLocationPublic,
+    maxHeartRate,
+    restingHeartRate,
+    heartRateZones,
+    unitSystem,
+    weightKg,
+    heightCm,
+    sex,
+    birthDate,
+    isWeightPublic,
+    isHeightPublic,
+    isSexPublic,
+    isBirthDatePublic,
+  } = req.body;
+
+  // Resting heart rate must stay below max, whichever of the two is changing
+  if (maxHeartRate != null || restingHeartRate != null) {
+    const current = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { maxHeartRate: true, restingHeartRate: true },
+    });
+    const max = maxHeartRate !== undefined ? maxHeartRate : current?.maxHeartRate;
+    const resting = restingHeartRate !== undefined ? restingHeartRate : current?.restingHeartRate;
+    if (max != null && resting != null && resting >= max) {
+      throw new AppError('Resting heart rate must be below max heart rate', 400);
+    }
+  }
 
   // Check username uniqueness if changing
   if (username) {
@@ -89,8 +130,21 @@ router.patch('/me', validate(updateProfileSchema), async (req, res) => {
       bio,
       location,
       isPublic,
+      defaultRunVisibility,
       avatarUrl,
       isLocationPublic,
+      maxHeartRate,
+      restingHeartRate,
+      heartRateZones,
+      unitSystem,
+      weightKg,
+      heightCm,
+      sex,
+      birthDate,
+      isWeightPublic,
+      isHeightPublic,
+      isSexPublic,
+      isBirthDatePublic,
     },
   });
 
@@ -113,6 +167,63 @@ router.post('/me/location', validate(updateLocationSchema), async (req, res) =>
   res.json({ success: true, location: { latitude, longitude } });
 });
 
+// Get privacy zones
+router.get('/me/privacy-zones', async (req, res) => {
+  const zones = await prisma.privacyZone.findMany({
+    where: { userId: req.userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.json(zones);
+});
+
+// Create privacy zone
+router.post('/me/privacy-zones', validate(privacyZoneSchema), async (req, res) => {
+  const { name, latitude, longitude, radius } = req.body;
+
+  const count = await prisma.privacyZone.count({ where: { userId: req.userId } });
+  if (count >= MAX_PRIVACY_ZONES) {
+    throw new AppError(`You can have at most ${MAX_PRIVACY_ZONES} privacy zones`, 400);
+  }
+
+  const zone = await prisma.privacyZone.create({
+    data: { userId: req.userId!, name, latitude, longitude, radius },
+  });
+
+  res.json(zone);
+});
+
+// Update privacy zone
+router.patch('/me/privacy-zones/:zoneId', validate(updatePrivacyZoneSchema), async (req, res) => {
+  const { name, latitude, longitude, radius } = req.body;
+
+  const zone = await prisma.privacyZone.findFirst({
+    where: { id: req.params.zoneId, userId: req.userId },
+  });
+
+  if (!zone) throw new AppError('Privacy zone not found', 404);
+
+  const updatedZone = await prisma.privacyZone.update({
+    where: { id: zone.id },
+    data: { name, latitude, longitude, radius },
+  });
+
+  res.json(updatedZone);
+});
+
+// Delete privacy zone
+router.delete('/me/privacy-zones/:zoneId', async (req, res) => {
+  const zone = await prisma.privacyZone.findFirst({
+    where: { id: req.params.zoneId, userId: req.userId },
+  });
+
+  if (!zone) throw new AppError('Privacy zone not found', 404);
+
+  await prisma.privacyZone.delete({ where: { id: zone.id } });
+
+  res.json({ success: true });
+});
+
 // Get nearby users
 router.get('/nearby', validate(nearbyUsersQuerySchema, 'query'), async (req, res) => {
   const { latitude: lat, longitude: lng, radius: radiusKm } = req.query as any;
@@ -218,21 +329,22 @@ router.get('/:id', async (req, res) => {
     where: {
       userId: req.params.id,
       isCompleted: true,
-      ...(user.isPublic ? {} : { userId: req.userId }), // Only show own runs if private
+      ...(await visibleRunsWhere(req.params.id, req.userId!)),
     },
-    orderBy: { createdAt: 'desc' },
+    orderBy: { startTime: 'desc' },
     take: 5,
     select: {
       id: true,
       distance: true,
       duration: true,
       avgPace: true,
+      startTime: true,
       createdAt: true,
     },
   });
 
   res.json({
-    ...user,
+    ...hidePrivateAthleteFields(user, user.id === req.userId),
     isFollowing: !!isFollowing,
     recentRuns,
   });
@@ -267,8 +379,9 @@ router.get('/:id/runs', async (req, res) => {
     where: {
       userId: req.params.id,
       isCompleted: true,
+      ...(await visibleRunsWhere(req.params.id, req.userId!)),
     },
-    orderBy: { createdAt: 'desc' },
+    orderBy: { startTime: 'desc' },
     take: Number(limit),
     ...(cursor && { cursor: { id: cursor as string }, skip: 1 }),
     include: {
@@ -277,7 +390,10 @@ router.get('/:id/runs', async (req, res) => {
     },
   });
 
-  res.json(runs);
+  const zones = await getHiddenZones(req.params.id, req.userId!);
+  const shaped = await attachTrackShapes(runs, {}, () => zones);
+
+  res.json(shaped.map((run) => hideRunLocations(run, zones)));
 });
 
 // Get user's posts
@@ -294,18 +410,26 @@ router.get('/:id/posts', async (req, res) => {
     ...(cursor && { cursor: { id: cursor as string }, skip: 1 }),
     include: {
       user: { select: { id: true, fullName: true, username: true, avatarUrl: true } },
-      run: { select: { id: true, distance: true, duration: true, avgPace: true } },
+      run: { select: { id: true, distance: true, duration: true, avgPace: true, visibility: true } },
       _count: { select: { likes: true, comments: true } },
     },
   });
 
+  const zones = await getHiddenZones(req.params.id, req.userId!);
+  const visibleRuns = await getVisibleRunVisibilities(req.params.id, req.userId!);
+
   // Check if current user liked each post
   const postsWithLikeStatus = await Promise.all(
     posts.map(async (post) => {
       const liked = await prisma.like.findUnique({
         where: { userId_postId: { userId: req.userId!, postId: post.id } },
       });
-      return { ...post, isLiked: !!liked };
+      return {
+        ...hideLocation(post, zones),
+        // A post can outlive its run's visibility being narrowed
+        run: post.run && visibleRuns.includes(post.run.visibility) ? post.run : null,
+        isLiked: !!liked,
+      };
     })
   );
 
@@ -0,0 +1,151 @@
+import { prisma } from '../config/database.js';
+import { endLiveShares } from './liveTracking.js';
+import { recordCompletedRun } from './runCompletion.js';
+import { computeRunFromTrack } from './runRecompute.js';
+import { rebuildRunSplits } from './runSplits.js';
+import { getUnitSystem } from './units.js';
+import { scheduleSweep } from '../utils/schedule.js';
+import { formatDistance } from '../utils/units.js';
+
+// A run with no new coordinates for this long is treated as abandoned
+export const ABANDONED_RUN_IDLE_MINUTES = Number(process.env.ABANDONED_RUN_IDLE_MINUTES) || 120;
+const CHECK_INTERVAL_MINUTES = Number(process.env.ABANDONED_RUN_CHECK_MINUTES) || 15;
+
+export interface CleanupResult {
+  completed: number;
+  discarded: number;
+}
+
+/**
+ * Close every in-progress run that has gone idle: runs with a usable track are
+ * completed from their stored coordinates, empty ones are deleted. Either way
+ * the runner's "currently running" state is cleared and they are told why.
+ */
+export async function cleanupAbandonedRuns(now: Date = new Date()): Promise<CleanupResult> {
+  const cutoff = new Date(now.getTime() - ABANDONED_RUN_IDLE_MINUTES * 60 * 1000);
+  const result: CleanupResult = { completed: 0, discarded: 0 };
+
+  const candidates = await prisma.run.findMany({
+    where: { isCompleted: false, startTime: { lt: cutoff } },
+    include: {
+      coordinates: { orderBy: { timestamp: 'desc' }, take: 1 },
+      _count: { select: { coordinates: true } },
+    },
+  });
+
+  for (const run of candidates) {
+    const lastPoint = run.coordinates[0];
+    const lastActivity = lastPoint?.timestamp ?? run.startTime;
+    if (lastActivity >= cutoff) continue;
+
+    try {
+      if (run._count.coordinates < 2) {
+        await discardRun(run.id, run.userId);
+        result.discarded++;
+      } else if (await completeRun(run.id, run.userId, lastActivity)) {
+        result.completed++;
+      }
+    } catch (error) {
+      // One broken run shouldn't block the rest of the sweep
+      console.error(`Failed to clean up abandoned run ${run.id}:`, error);
+    }
+  }
+
+  // Clear flags left pointing at a run that is no longer in progress
+  const running = await prisma.user.findMany({
+    where: { isCurrentlyRunning: true },
+    select: { id: true, currentRunId: true },
+  });
+  const activeRuns = await prisma.run.findMany({
+    where: { id: { in: running.flatMap((user) => user.currentRunId ?? []) }, isCompleted: false },
+    select: { id: true },
+  });
+  const activeIds = new Set(activeRuns.map((run) => run.id));
+  const stale = running.filter((user) => !user.currentRunId || !activeIds.has(user.currentRunId));
+
+  if (stale.length > 0) {
+    await prisma.user.updateMany({
+      where: { id: { in: stale.map((user) => user.id) } },
+      data: { isCurrentlyRunning: false, currentRunId: null },
+    });
+  }
+
+  return result;
+}
+
+export function scheduleAbandonedRunCleanup(): NodeJS.Timeout {
+  return scheduleSweep('Abandoned run cleanup', async () => {
+    const { completed, discarded } = await cleanupAbandonedRuns();
+    if (completed + discarded > 0) {
+      console.log(`🧹 Abandoned runs: ${completed} completed, ${discarded} discarded`);
+    }
+  }, CHECK_INTERVAL_MINUTES);
+}
+
+/**
+ * Complete a run from its stored track. Returns false when the runner finished
+ * it themselves while the sweep was running.
+ */
+async function completeRun(runId: string, userId: string, endTime: Date): Promise<boolean> {
+  // A pause left open ends with the last recorded point
+  await prisma.runPause.updateMany({
+    where: { runId, resumedAt: null, run: { isCompleted: false } },
+    data: { resumedAt: endTime },
+  });
+
+  // Stats are written together with the flag, and only if the run is
+  // still in progress, so a run the runner just finished is left alone
+  const { data, coordinates, pauses } = await computeRunFromTrack(runId);
+  const { count } = await prisma.run.updateMany({
+    where: { id: runId, isCompleted: false },
+    data: { ...data, isCompleted: true },
+  });
+  if (count !== 1) return false;
+
+  await rebuildRunSplits(runId, coordinates, pauses);
+  const run = (await prisma.run.findUnique({ where: { id: runId } }))!;
+
+  await recordCompletedRun(userId, run);
+  await endLiveShares(runId);
+
+  const units = await getUnitSystem(userId);
+
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: 'RUN_ABANDONED',
+      title: 'Run Auto-Completed',
+      body: `Your run stopped recording for over ${formatIdle()}, so we saved it with the ${formatDistance(run.distance, units)} we had`,
+      runId,
+      data: { action: 'completed' },
+    },
+  });
+
+  return true;
+}
+
+async function discardRun(runId: string, userId: string): Promise<void> {
+  await endLiveShares(runId);
+  await prisma.run.delete({ where: { id: runId } });
+
+  await prisma.user.updateMany({
+    where: { id: userId, currentRunId: runId },
+    data: { isCurrentlyRunning: false, currentRunId: null },
+  });
+
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: 'RUN_ABANDONED',
+      title: 'Run Discarded',
+      body: `Your run recorded no route for over ${formatIdle()}, so it was removed`,
+      data: { action: 'discarded' },
+    },
+  });
+}
+
+function formatIdle(): string {
+  return ABANDONED_RUN_IDLE_MINUTES % 60 === 0
+    ? `${ABANDONED_RUN_IDLE_MINUTES / 60} h`
+    : `${ABANDONED_RUN_IDLE_MINUTES} min`;
+}
@@ -0,0 +1,19 @@
+import { prisma } from '../config/database.js';
+import { AthleteProfile } from '../utils/calories.js';
+
+/**
+ * Body metrics used for energy estimates; unknown fields are null
+ */
+export async function getAthleteProfile(userId: string): Promise<AthleteProfile> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { weightKg: true, heightCm: true, sex: true, birthDate: true },
+  });
+
+  return {
+    weightKg: user?.weightKg ?? null,
+    heightCm: user?.heightCm ?? null,
+    sex: user?.sex ?? null,
+    birthDate: user?.birthDate ?? null,
+  };
+}
@@ -0,0 +1,107 @@
+import { Gear, GearType, UnitSystem } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getUnitSystem } from './units.js';
+import { formatDistance } from '../utils/units.js';
+
+// Shoes are due for retirement at this distance unless the owner sets one (km)
+export const DEFAULT_SHOE_RETIREMENT_KM = Number(process.env.SHOE_RETIREMENT_KM) || 600;
+
+/**
+ * Retirement distance for new gear: shoes get the default, other equipment
+ * has none unless the owner chooses one
+ */
+export function defaultRetirementDistance(type: GearType): number | null {
+  return type === 'SHOES' ? DEFAULT_SHOE_RETIREMENT_KM : null;
+}
+
+/**
+ * Gear for a run being started or logged. `undefined` means the client didn't
+ * choose, so the owner's default is used; `null` means no gear.
+ */
+export async function resolveRunGear(userId: string, gearId: string | null | undefined): Promise<string | null> {
+  if (gearId === null) return null;
+
+  if (gearId === undefined) {
+    const gear = await prisma.gear.findFirst({
+      where: { userId, isDefault: true, isRetired: false },
+      select: { id: true },
+    });
+    return gear?.id ?? null;
+  }
+
+  const gear = await prisma.gear.findFirst({ where: { id: gearId, userId } });
+  if (!gear) throw new AppError('Gear not found', 404);
+  if (gear.isRetired) throw new AppError('Gear is retired', 400);
+  return gear.id;
+}
+
+/**
+ * Make one item the owner's default, clearing the flag on the rest
+ */
+export async function setDefaultGear(userId: string, gearId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.gear.updateMany({ where: { userId, isDefault: true, id: { not: gearId } }, data: { isDefault: false } }),
+    prisma.gear.update({ where: { id: gearId }, data: { isDefault: true } }),
+  ]);
+}
+
+/**
+ * Recompute the distance on each given item from its completed runs, e.g.
+ * after a run is completed, edited, reassigned or deleted
+ */
+export async function refreshGearDistances(gearIds: Array<string | null | undefined>): Promise<void> {
+  for (const gearId of new Set(gearIds)) {
+    if (gearId) await refreshGearDistance(gearId);
+  }
+}
+
+/**
+ * Recompute an item's distance and notify the owner the first time it
+ * reaches its retirement distance
+ */
+export async function refreshGearDistance(gearId: string, now: Date = new Date()): Promise<Gear | null> {
+  const gear = await prisma.gear.findUnique({ where: { id: gearId } });
+  if (!gear) return null;
+
+  const { _sum } = await prisma.run.aggregate({
+    where: { gearId, isCompleted: true },
+    _sum: { distance: true },
+  });
+  const distance = gear.initialDistance + (_sum.distance ?? 0);
+
+  const isDue = gear.retirementDistance != null && distance >= gear.retirementDistance;
+  let retirementNotifiedAt = isDue ? gear.retirementNotifiedAt : null;
+
+  if (isDue && !gear.retirementNotifiedAt && !gear.isRetired) {
+    retirementNotifiedAt = now;
+    const units = await getUnitSystem(gear.userId);
+    await prisma.notification.create({
+      data: {
+        userId: gear.userId,
+        type: 'GEAR_RETIREMENT',
+        title: 'Time to retire your gear',
+        body: `${gear.name} has passed ${formatDistance(gear.retirementDistance!, units, 0)}`,
+        data: { gearId: gear.id },
+      },
+    });
+  }
+
+  return prisma.gear.update({
+    where: { id: gear.id },
+    data: { distance, retirementNotifiedAt },
+  });
+}
+
+export function serializeGear(gear: Gear, units: UnitSystem) {
+  const { retirementDistance } = gear;
+  return {
+    ...gear,
+    remainingDistance: retirementDistance != null ? Math.max(0, retirementDistance - gear.distance) : null,
+    percentUsed: retirementDistance ? Math.round((gear.distance / retirementDistance) * 1000) / 10 : null,
+    display: {
+      distance: formatDistance(gear.distance, units, 1),
+      retirementDistance: retirementDistance != null ? formatDistance(retirementDistance, units, 0) : null,
+    },
+  };
+}
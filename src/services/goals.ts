@@ -0,0 +1,163 @@
+import { Goal, GoalMetric, GoalPeriod, UnitSystem } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getUnitSystem } from './units.js';
+import { getPeriodBounds } from '../utils/periods.js';
+import { scheduleSweep } from '../utils/schedule.js';
+import { formatDistance } from '../utils/units.js';
+
+// How often every active goal is re-checked, so behind-pace reminders reach
+// people who aren't running
+const SWEEP_INTERVAL_MINUTES = Number(process.env.GOAL_SWEEP_MINUTES) || 60;
+
+// "Behind pace" reminders start once this much of the period has passed...
+const BEHIND_CHECK_FROM = 0.75;
+// ...and fire when progress is below this share of the on-pace amount
+const BEHIND_MARGIN = 0.9;
+
+const PERIOD_LABELS: Record<GoalPeriod, string> = {
+  WEEK: 'weekly',
+  MONTH: 'monthly',
+  YEAR: 'yearly',
+};
+
+/**
+ * Recompute every active goal of a user, e.g. after a run is completed or deleted
+ */
+export async function refreshGoals(userId: string): Promise<Goal[]> {
+  const goals = await prisma.goal.findMany({
+    where: { userId, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const refreshed: Goal[] = [];
+  for (const goal of goals) {
+    refreshed.push(await refreshGoal(goal));
+  }
+  return refreshed;
+}
+
+/**
+ * Recompute every active goal of every user. Progress otherwise only changes
+ * when runs do, which never happens for the runners falling behind.
+ */
+export async function refreshAllGoals(now: Date = new Date()): Promise<number> {
+  const goals = await prisma.goal.findMany({
+    where: { isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let refreshed = 0;
+  for (const goal of goals) {
+    try {
+      await refreshGoal(goal, now);
+      refreshed++;
+    } catch (error) {
+      // The other goals still get their reminders
+      console.error(`Failed to refresh goal ${goal.id}:`, error);
+    }
+  }
+  return refreshed;
+}
+
+export function scheduleGoalSweep(): NodeJS.Timeout {
+  return scheduleSweep('Goal sweep', () => refreshAllGoals(), SWEEP_INTERVAL_MINUTES);
+}
+
+/**
+ * Recompute a goal's progress for the current period, rolling it over when a
+ * new period has started, and send reached / behind-pace notifications
+ */
+export async function refreshGoal(goal: Goal, now: Date = new Date()): Promise<Goal> {
+  const { start, end } = getPeriodBounds(goal.period, now);
+
+  const runs = await prisma.run.findMany({
+    where: {
+      userId: goal.userId,
+      isCompleted: true,
+      startTime: { gte: start, lt: end },
+    },
+    select: { distance: true, duration: true },
+  });
+
+  const progress = measure(goal.metric, runs);
+  const isNewPeriod = goal.periodStart.getTime() !== start.getTime();
+  const wasReached = !isNewPeriod && goal.reachedAt !== null;
+  const isReached = progress >= goal.target;
+  const alreadyWarned = !isNewPeriod && goal.behindNotifiedAt !== null;
+
+  let reachedAt = wasReached ? goal.reachedAt : null;
+  let behindNotifiedAt = alreadyWarned ? goal.behindNotifiedAt : null;
+
+  if (isReached && !wasReached) {
+    reachedAt = now;
+    const units = await getUnitSystem(goal.userId);
+    await prisma.notification.create({
+      data: {
+        userId: goal.userId,
+        type: 'GOAL',
+        title: 'Goal Reached!',
+        body: `You hit your ${PERIOD_LABELS[goal.period]} goal of ${formatAmount(goal.metric, goal.target, units)}`,
+        data: { goalId: goal.id },
+      },
+    });
+  } else if (!isReached) {
+    // A deleted run can take a reached goal back below target
+    reachedAt = null;
+
+    const elapsed = (now.getTime() - start.getTime()) / (end.getTime() - start.getTime());
+    const expected = goal.target * elapsed;
+    if (!alreadyWarned && elapsed >= BEHIND_CHECK_FROM && progress < expected * BEHIND_MARGIN) {
+      behindNotifiedAt = now;
+      const units = await getUnitSystem(goal.userId);
+      await prisma.notification.create({
+        data: {
+          userId: goal.userId,
+          type: 'GOAL',
+          title: 'Goal Behind Pace',
+          body: `${formatAmount(goal.metric, goal.target - progress, units)} to go on your ${PERIOD_LABELS[goal.period]} goal`,
+          data: { goalId: goal.id },
+        },
+      });
+    }
+  }
+
+  return prisma.goal.update({
+    where: { id: goal.id },
+    data: { progress, periodStart: start, reachedAt, behindNotifiedAt },
+  });
+}
+
+/**
+ * Goal with its current period window and completion percentage
+ */
+export function serializeGoal(goal: Goal) {
+  const { end } = getPeriodBounds(goal.period, goal.periodStart);
+  return {
+    ...goal,
+    periodEnd: end,
+    percent: goal.target > 0 ? Math.min(100, Math.round((goal.progress / goal.target) * 1000) / 10) : 0,
+    remaining: Math.max(0, goal.target - goal.progress),
+  };
+}
+
+function measure(metric: GoalMetric, runs: Array<{ distance: number; duration: number }>): number {
+  switch (metric) {
+    case 'DISTANCE':
+      return runs.reduce((acc, run) => acc + run.distance, 0);
+    case 'RUNS':
+      return runs.length;
+    case 'DURATION':
+      return runs.reduce((acc, run) => acc + run.duration, 0);
+  }
+}
+
+function formatAmount(metric: GoalMetric, value: number, units: UnitSystem): string {
+  switch (metric) {
+    case 'DISTANCE':
+      return formatDistance(value, units, 1);
+    case 'RUNS':
+      return `${Math.ceil(value)} run${Math.ceil(value) === 1 ? '' : 's'}`;
+    case 'DURATION':
+      return `${(value / 3600).toFixed(1)} h`;
+  }
+}
@@ -0,0 +1,18 @@
+import { prisma } from '../config/database.js';
+import { resolveZoneBounds } from '../utils/heartRate.js';
+
+/**
+ * Heart rate zone 2-5 lower bounds for a user, from their saved settings
+ */
+export async function getZoneBounds(userId: string): Promise<number[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { maxHeartRate: true, restingHeartRate: true, heartRateZones: true },
+  });
+
+  return resolveZoneBounds({
+    maxHeartRate: user?.maxHeartRate ?? null,
+    restingHeartRate: user?.restingHeartRate ?? null,
+    heartRateZones: user?.heartRateZones ?? [],
+  });
+}
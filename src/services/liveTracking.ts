@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { computeRunTiming } from '../utils/pauses.js';
+import { computeTrackStats } from '../utils/trackStats.js';
+
+export type LiveSnapshot = Awaited<ReturnType<typeof getLiveSnapshot>>;
+
+export type LiveEvent =
+  | { type: 'update'; snapshot: LiveSnapshot }
+  | { type: 'completed'; snapshot: LiveSnapshot }
+  | { type: 'revoked' };
+
+// In-process fan-out of run updates to connected spectators
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+/**
+ * Create a new share token for a run in progress
+ */
+export async function createLiveShare(runId: string) {
+  return prisma.liveShare.create({
+    data: {
+      runId,
+      token: randomBytes(24).toString('base64url'),
+    },
+  });
+}
+
+/**
+ * Resolve a share token to its run, rejecting unknown and expired links
+ */
+export async function resolveLiveShare(token: string) {
+  const share = await prisma.liveShare.findUnique({ where: { token } });
+
+  if (!share) throw new AppError('Live link not found', 404);
+  if (share.expiresAt && share.expiresAt <= new Date()) {
+    throw new AppError('Live link has expired', 410);
+  }
+
+  return share;
+}
+
+/**
+ * Current position, distance and timing of a run as seen by spectators
+ */
+export async function getLiveSnapshot(runId: string) {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          fullName: true,
+          username: true,
+          avatarUrl: true,
+        },
+      },
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+
+  const stats = computeTrackStats(run.coordinates, run.pauses);
+  const timing = computeRunTiming(run.startTime, run.endTime ?? new Date(), run.pauses);
+  const last = run.coordinates[run.coordinates.length - 1];
+
+  return {
+    runId: run.id,
+    runner: run.user,
+    startTime: run.startTime,
+    isPaused: run.isPaused,
+    isCompleted: run.isCompleted,
+    position: last
+      ? {
+          latitude: last.latitude,
+          longitude: last.longitude,
+          altitude: last.altitude,
+          heartRate: last.heartRate,
+          timestamp: last.timestamp,
+        }
+      : null,
+    distance: run.isCompleted ? run.distance : stats.distance,
+    elapsedTime: timing.elapsedTime,
+    movingTime: timing.movingTime,
+  };
+}
+
+/**
+ * Push the latest snapshot to anyone watching the run. Skips the work
+ * entirely when there are no spectators.
+ */
+export async function publishRunUpdate(runId: string): Promise<void> {
+  if (emitter.listenerCount(runId) === 0) return;
+
+  const snapshot = await getLiveSnapshot(runId);
+  emitter.emit(runId, { type: 'update', snapshot } satisfies LiveEvent);
+}
+
+/**
+ * Expire every live link of a run and tell connected spectators it is over
+ */
+export async function endLiveShares(runId: string): Promise<void> {
+  await prisma.liveShare.updateMany({
+    where: { runId, expiresAt: null },
+    data: { expiresAt: new Date() },
+  });
+
+  if (emitter.listenerCount(runId) === 0) return;
+
+  const snapshot = await getLiveSnapshot(runId);
+  emitter.emit(runId, { type: 'completed', snapshot } satisfies LiveEvent);
+}
+
+/**
+ * Expire every live link of a run at the runner's request and disconnect
+ * spectators without sending them another position
+ */
+export async function revokeLiveShares(runId: string): Promise<void> {
+  await prisma.liveShare.updateMany({
+    where: { runId, expiresAt: null },
+    data: { expiresAt: new Date() },
+  });
+
+  emitter.emit(runId, { type: 'revoked' } satisfies LiveEvent);
+}
+
+/**
+ * Listen for events on a run; returns the unsubscribe function
+ */
+export function subscribeToRun(runId: string, listener: (event: LiveEvent) => void): () => void {
+  emitter.on(runId, listener);
+  return () => {
+    emitter.off(runId, listener);
+  };
+}
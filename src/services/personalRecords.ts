@@ -0,0 +1,101 @@
+import { RecordDistance } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { findBestEfforts, RECORD_DISTANCES, RECORD_LABELS } from '../utils/bestEfforts.js';
+import { formatDuration } from '../utils/units.js';
+
+/**
+ * Scan a completed run for best efforts, store them, and promote any that
+ * beat the user's current records. A broken record triggers a notification.
+ */
+export async function updatePersonalRecords(userId: string, runId: string): Promise<void> {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: true,
+    },
+  });
+
+  // Best efforts need a GPS timeline
+  if (!run || run.isManual) return;
+
+  const efforts = findBestEfforts(run.coordinates, run.pauses);
+
+  await prisma.runBestEffort.deleteMany({ where: { runId } });
+  if (efforts.length === 0) return;
+
+  await prisma.runBestEffort.createMany({
+    data: efforts.map((effort) => ({ runId, userId, ...effort })),
+  });
+
+  const records = await prisma.personalRecord.findMany({ where: { userId } });
+
+  for (const effort of efforts) {
+    const current = records.find((record) => record.distance === effort.distance);
+    if (current && current.time <= effort.time) continue;
+
+    await prisma.personalRecord.upsert({
+      where: { userId_distance: { userId, distance: effort.distance } },
+      create: {
+        userId,
+        runId,
+        distance: effort.distance,
+        time: effort.time,
+        achievedAt: effort.startedAt,
+      },
+      update: {
+        runId,
+        time: effort.time,
+        achievedAt: effort.startedAt,
+      },
+    });
+
+    // Only a broken record is news; the first effort at a distance is not
+    if (current) {
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'ACHIEVEMENT',
+          title: 'New Personal Record!',
+          body: `New ${RECORD_LABELS[effort.distance]} best: ${formatDuration(effort.time)} (was ${formatDuration(current.time)})`,
+          runId,
+          data: { distance: effort.distance, time: effort.time, previousTime: current.time },
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Rebuild a user's records from their stored best efforts, e.g. after the
+ * run holding a record was deleted
+ */
+export async function recalculatePersonalRecords(userId: string): Promise<void> {
+  for (const distance of Object.keys(RECORD_DISTANCES) as RecordDistance[]) {
+    const best = await prisma.runBestEffort.findFirst({
+      where: { userId, distance },
+      orderBy: [{ time: 'asc' }, { startedAt: 'asc' }],
+    });
+
+    if (!best) {
+      await prisma.personalRecord.deleteMany({ where: { userId, distance } });
+      continue;
+    }
+
+    await prisma.personalRecord.upsert({
+      where: { userId_distance: { userId, distance } },
+      create: {
+        userId,
+        runId: best.runId,
+        distance,
+        time: best.time,
+        achievedAt: best.startedAt,
+      },
+      update: {
+        runId: best.runId,
+        time: best.time,
+        achievedAt: best.startedAt,
+      },
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { prisma } from '../config/database.js';
+import { PrivacyZoneArea } from '../utils/privacyZones.js';
+
+// Upper bound on zones per user
+export const MAX_PRIVACY_ZONES = 10;
+
+/**
+ * Zones to apply when a viewer looks at an owner's content; owners see their
+ * own locations unmodified
+ */
+export async function getHiddenZones(ownerId: string, viewerId: string): Promise<PrivacyZoneArea[]> {
+  if (ownerId === viewerId) return [];
+
+  return prisma.privacyZone.findMany({
+    where: { userId: ownerId },
+    select: { latitude: true, longitude: true, radius: true },
+  });
+}
+
+/**
+ * Zones of several owners at once, e.g. for a feed; the viewer's own content
+ * maps to no zones
+ */
+export async function getHiddenZonesByOwner(
+  ownerIds: string[],
+  viewerId: string
+): Promise<Map<string, PrivacyZoneArea[]>> {
+  const others = [...new Set(ownerIds)].filter((id) => id !== viewerId);
+  const zones = others.length > 0
+    ? await prisma.privacyZone.findMany({
+        where: { userId: { in: others } },
+        select: { userId: true, latitude: true, longitude: true, radius: true },
+      })
+    : [];
+
+  const byOwner = new Map<string, PrivacyZoneArea[]>();
+  for (const { userId, ...zone } of zones) {
+    byOwner.set(userId, [...(byOwner.get(userId) ?? []), zone]);
+  }
+  return byOwner;
+}
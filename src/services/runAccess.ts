@@ -0,0 +1,65 @@
+import { RunVisibility } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Most restrictive first
+export const RUN_VISIBILITY_ORDER: RunVisibility[] = ['PRIVATE', 'FOLLOWERS', 'PUBLIC'];
+
+/**
+ * Run visibilities a viewer may see for one owner. Owners see all of their
+ * runs, followers see public and followers-only runs, and anyone else sees
+ * public runs only when the owner's profile is public.
+ */
+export async function getVisibleRunVisibilities(ownerId: string, viewerId: string): Promise<RunVisibility[]> {
+  if (ownerId === viewerId) return ['PUBLIC', 'FOLLOWERS', 'PRIVATE'];
+
+  const isFollowing = await prisma.follow.findUnique({
+    where: {
+      followerId_followingId: {
+        followerId: viewerId,
+        followingId: ownerId,
+      },
+    },
+  });
+  if (isFollowing) return ['PUBLIC', 'FOLLOWERS'];
+
+  const user = await prisma.user.findUnique({
+    where: { id: ownerId },
+    select: { isPublic: true },
+  });
+  return user?.isPublic ? ['PUBLIC'] : [];
+}
+
+/**
+ * Prisma filter limiting an owner's runs to those the viewer may see
+ */
+export async function visibleRunsWhere(ownerId: string, viewerId: string) {
+  return { visibility: { in: await getVisibleRunVisibilities(ownerId, viewerId) } };
+}
+
+export async function canViewRun(run: { userId: string; visibility: RunVisibility }, viewerId: string): Promise<boolean> {
+  return (await getVisibleRunVisibilities(run.userId, viewerId)).includes(run.visibility);
+}
+
+/**
+ * Ensure the viewer may see a run, following its visibility setting and the
+ * owner's profile privacy
+ */
+export async function assertRunAccess(run: { userId: string; visibility: RunVisibility }, viewerId: string): Promise<void> {
+  if (!(await canViewRun(run, viewerId))) {
+    throw new AppError('Access denied', 403);
+  }
+}
+
+/**
+ * Visibility for a new run: the one chosen by the client, else the owner's default
+ */
+export async function resolveRunVisibility(userId: string, visibility?: RunVisibility): Promise<RunVisibility> {
+  if (visibility) return visibility;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { defaultRunVisibility: true },
+  });
+  return user?.defaultRunVisibility ?? 'PUBLIC';
+}
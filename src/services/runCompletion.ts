@@ -0,0 +1,177 @@
+import { Run } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { updatePersonalRecords } from './personalRecords.js';
+import { refreshGoals } from './goals.js';
+import { refreshGearDistances } from './gear.js';
+import { computeTrainingLoad } from '../utils/trainingLoad.js';
+import { formatDistance } from '../utils/units.js';
+
+/**
+ * Apply a newly completed run to the owner's aggregates: totals, XP, level,
+ * training load, achievements, personal records, goals and the completion
+ * notification. Shared by every path that completes a run so all of them
+ * award the same rewards.
+ */
+export async function recordCompletedRun(userId: string, run: Run): Promise<void> {
+  // Update user stats
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totalDistance: { increment: run.distance },
+      totalRuns: { increment: 1 },
+      totalTime: { increment: run.duration },
+      xp: { increment: Math.floor(run.distance * 10) },
+    },
+  });
+
+  // Score the run for the training load model
+  await prisma.run.update({
+    where: { id: run.id },
+    data: { trainingLoad: computeTrainingLoad(run, user) },
+  });
+
+  // Clear the "currently running" flag only if it points at this run
+  if (user.currentRunId === run.id) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { isCurrentlyRunning: false, currentRunId: null },
+    });
+  }
+
+  // Calculate and update level
+  const newLevel = Math.floor(user.xp / 1000) + 1;
+  if (newLevel > user.level) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { level: newLevel },
+    });
+
+    // Create level up notification
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: 'ACHIEVEMENT',
+        title: 'Level Up!',
+        body: `Congratulations! You reached level ${newLevel}`,
+        runId: run.id,
+      },
+    });
+  }
+
+  // Check achievements
+  await checkAchievements(userId, run.distance, run);
+
+  // Detect best efforts and personal records
+  await updatePersonalRecords(userId, run.id);
+
+  // Update goal progress
+  await refreshGoals(userId);
+
+  // Add the run's distance to its gear
+  await refreshGearDistances([run.gearId]);
+
+  // Create completion notification
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: 'RUN_COMPLETED',
+      title: 'Run Completed',
+      body: `Great job! You ran ${formatDistance(run.distance, user.unitSystem)}`,
+      runId: run.id,
+    },
+  });
+}
+
+/**
+ * Shift the owner's totals and XP by the difference between two versions of
+ * an already completed run, e.g. after its track was edited
+ */
+export async function applyRunStatsChange(userId: string, before: Run, after: Run): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totalDistance: { increment: after.distance - before.distance },
+      totalTime: { increment: after.duration - before.duration },
+      xp: { increment: Math.floor(after.distance * 10) - Math.floor(before.distance * 10) },
+    },
+  });
+
+  await refreshGearDistances([before.gearId, after.gearId]);
+}
+
+// Helper: Check and award achievements
+async function checkAchievements(userId: string, runDistance: number, run: Run) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      achievements: true,
+    },
+  });
+
+  if (!user) return;
+
+  const achievements = await prisma.achievement.findMany();
+
+  for (const achievement of achievements) {
+    // Skip if already unlocked
+    const existing = user.achievements.find(a => a.achievementId === achievement.id);
+    if (existing?.unlockedAt) continue;
+
+    let progress = 0;
+    let shouldUnlock = false;
+
+    switch (achievement.type) {
+      case 'TOTAL_DISTANCE':
+        progress = user.totalDistance;
+        shouldUnlock = user.totalDistance >= achievement.threshold;
+        break;
+      case 'TOTAL_RUNS':
+        progress = user.totalRuns;
+        shouldUnlock = user.totalRuns >= achievement.threshold;
+        break;
+      case 'SINGLE_RUN_DISTANCE':
+        progress = runDistance;
+        shouldUnlock = runDistance >= achievement.threshold;
+        break;
+      case 'SINGLE_RUN_PACE':
+        progress = run.avgPace;
+        shouldUnlock = run.avgPace > 0 && run.avgPace <= achievement.threshold;
+        break;
+    }
+
+    // Update or create achievement progress
+    await prisma.userAchievement.upsert({
+      where: {
+        userId_achievementId: { userId, achievementId: achievement.id },
+      },
+      create: {
+        userId,
+        achievementId: achievement.id,
+        progress,
+        unlockedAt: shouldUnlock ? new Date() : null,
+      },
+      update: {
+        progress,
+        unlockedAt: shouldUnlock ? new Date() : undefined,
+      },
+    });
+
+    // Award XP and notify if unlocked
+    if (shouldUnlock && !existing?.unlockedAt) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { xp: { increment: achievement.xpReward } },
+      });
+
+      await prisma.notification.create({
+        data: {
+          userId,
+          type: 'ACHIEVEMENT',
+          title: 'Achievement Unlocked!',
+          body: `You earned "${achievement.name}"`,
+          data: { achievementId: achievement.id },
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { estimateTrackCalories } from '../utils/calories.js';
+import { analyzeHeartRate, resolveZoneBounds } from '../utils/heartRate.js';
+import { computeRunTiming } from '../utils/pauses.js';
+import { computeTrackStats } from '../utils/trackStats.js';
+import { computeTrainingLoad } from '../utils/trainingLoad.js';
+import { storedTrackShape } from '../utils/polyline.js';
+import { rebuildRunSplits } from './runSplits.js';
+
+/**
+ * Every coordinate-derived run field (stats, timing, heart rate, training
+ * load and track shape) computed from what is currently stored, without
+ * writing anything. The track and pauses are returned for the splits.
+ */
+export async function computeRunFromTrack(runId: string) {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    include: {
+      coordinates: { orderBy: { timestamp: 'asc' } },
+      pauses: { orderBy: { pausedAt: 'asc' } },
+      user: {
+        select: {
+          maxHeartRate: true,
+          restingHeartRate: true,
+          heartRateZones: true,
+          weightKg: true,
+          heightCm: true,
+          sex: true,
+          birthDate: true,
+        },
+      },
+    },
+  });
+
+  if (!run) throw new AppError('Run not found', 404);
+  if (run.coordinates.length < 2) throw new AppError('Run needs at least 2 coordinates', 400);
+
+  const stats = computeTrackStats(run.coordinates, run.pauses);
+  const startTime = run.coordinates[0].timestamp;
+  const endTime = run.coordinates[run.coordinates.length - 1].timestamp;
+  const timing = computeRunTiming(startTime, endTime, run.pauses);
+  const heartRate = analyzeHeartRate(run.coordinates, resolveZoneBounds(run.user), run.pauses);
+
+  return {
+    data: {
+      ...stats,
+      ...heartRate,
+      calories: estimateTrackCalories(run.coordinates, run.user, stats.elevationGain, run.pauses),
+      startTime,
+      endTime,
+      movingTime: timing.movingTime,
+      elapsedTime: timing.elapsedTime,
+      trainingLoad: computeTrainingLoad({ ...stats, ...heartRate }, run.user),
+      ...storedTrackShape(run.coordinates),
+    },
+    coordinates: run.coordinates,
+    pauses: run.pauses,
+  };
+}
+
+/**
+ * Recompute every coordinate-derived field of a run, splits included. Used
+ * after the track has been edited.
+ */
+export async function recomputeRunFromTrack(runId: string) {
+  const { data, coordinates, pauses } = await computeRunFromTrack(runId);
+
+  const updatedRun = await prisma.run.update({ where: { id: runId }, data });
+  await rebuildRunSplits(runId, coordinates, pauses);
+
+  return updatedRun;
+}
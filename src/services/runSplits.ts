@@ -0,0 +1,26 @@
+import { SplitUnit } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { PauseInterval } from '../utils/pauses.js';
+import { generateSplits } from '../utils/splits.js';
+import { TrackPoint } from '../utils/trackStats.js';
+
+/**
+ * Replace a run's splits with kilometre and mile splits generated from its
+ * ordered track points
+ */
+export async function rebuildRunSplits(runId: string, points: TrackPoint[], pauses: PauseInterval[] = []) {
+  const splits = [SplitUnit.KM, SplitUnit.MILE].flatMap((unit) => generateSplits(points, unit, pauses));
+
+  await prisma.runSplit.deleteMany({ where: { runId } });
+
+  if (splits.length > 0) {
+    await prisma.runSplit.createMany({
+      data: splits.map((split) => ({ runId, ...split })),
+    });
+  }
+
+  return prisma.runSplit.findMany({
+    where: { runId },
+    orderBy: [{ unit: 'asc' }, { km: 'asc' }],
+  });
+}
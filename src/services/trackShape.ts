@@ -0,0 +1,86 @@
+import { Run, RunCoordinate } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import {
+  buildTrackShape,
+  DEFAULT_SIMPLIFY_TOLERANCE,
+  LatLng,
+  shapeFromStored,
+  storedTrackShape,
+  TrackShape,
+  TrackShapeOptions,
+} from '../utils/polyline.js';
+import { PrivacyZoneArea, stripPrivacyZones } from '../utils/privacyZones.js';
+
+type ShapeSource = Pick<Run, 'id' | 'isCompleted' | 'trackPolyline' | 'trackPointCount'>;
+
+export type ShapedRun<T extends ShapeSource> = Omit<T, 'trackPolyline' | 'trackPointCount'> & {
+  track: TrackShape;
+  coordinates?: RunCoordinate[];
+};
+
+/**
+ * Add the track shape to runs loaded without their coordinates. Finished runs
+ * use their stored polyline; raw points are only loaded when asked for (or
+ * for a tolerance finer than the stored one), for runs still in progress, and
+ * for older runs with no stored shape (which get one saved). Points inside the zones returned for a run are removed.
+ */
+export async function attachTrackShapes<T extends ShapeSource>(
+  runs: T[],
+  options: TrackShapeOptions = {},
+  zonesFor: (run: T) => PrivacyZoneArea[] = () => []
+): Promise<Array<ShapedRun<T>>> {
+  const needsPoints = (run: T) =>
+    options.includePoints ||
+    (options.tolerance ?? DEFAULT_SIMPLIFY_TOLERANCE) < DEFAULT_SIMPLIFY_TOLERANCE ||
+    !run.isCompleted ||
+    run.trackPolyline == null;
+
+  const ids = runs.filter(needsPoints).map((run) => run.id);
+  const coordinates = ids.length > 0
+    ? await prisma.runCoordinate.findMany({
+        where: { runId: { in: ids } },
+        orderBy: { timestamp: 'asc' },
+      })
+    : [];
+
+  const pointsByRun = new Map<string, RunCoordinate[]>();
+  for (const coordinate of coordinates) {
+    const points = pointsByRun.get(coordinate.runId);
+    if (points) points.push(coordinate);
+    else pointsByRun.set(coordinate.runId, [coordinate]);
+  }
+
+  const shaped: Array<ShapedRun<T>> = [];
+  for (const run of runs) {
+    const { trackPolyline, trackPointCount, ...rest } = run;
+    const zones = zonesFor(run);
+
+    if (!needsPoints(run)) {
+      const filter = zones.length > 0 ? (points: LatLng[]) => stripPrivacyZones(points, zones) : undefined;
+      shaped.push({ ...rest, track: shapeFromStored(trackPolyline!, trackPointCount, options.tolerance, filter) });
+      continue;
+    }
+
+    const points = pointsByRun.get(run.id) ?? [];
+    if (run.isCompleted && trackPolyline == null) {
+      await prisma.run.update({ where: { id: run.id }, data: storedTrackShape(points) });
+    }
+    const visible = stripPrivacyZones(points, zones);
+    shaped.push({
+      ...rest,
+      track: buildTrackShape(visible, options.tolerance),
+      ...(options.includePoints && { coordinates: visible }),
+    });
+  }
+
+  return shaped;
+}
+
+export async function attachTrackShape<T extends ShapeSource>(
+  run: T,
+  options: TrackShapeOptions = {},
+  zones: PrivacyZoneArea[] = []
+): Promise<ShapedRun<T>> {
+  const [shaped] = await attachTrackShapes([run], options, () => zones);
+  return shaped;
+}
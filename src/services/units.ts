@@ -0,0 +1,26 @@
+import { UnitSystem } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+/**
+ * A user's preferred unit system; metric when not set
+ */
+export async function getUnitSystem(userId: string): Promise<UnitSystem> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { unitSystem: true },
+  });
+
+  return user?.unitSystem ?? 'METRIC';
+}
+
+/**
+ * Preferred unit systems of several users at once, e.g. notification recipients
+ */
+export async function getUnitSystems(userIds: string[]): Promise<Map<string, UnitSystem>> {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, unitSystem: true },
+  });
+
+  return new Map(users.map((user) => [user.id, user.unitSystem]));
+}
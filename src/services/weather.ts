@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import { WeatherFixture, WEATHER_FIXTURES } from '../config/weatherFixtures.js';
+import { haversineDistance } from '../utils/geo.js';
+import { feelsLike, parseRunWeather, RunWeather } from '../utils/weather.js';
+
+export interface WeatherProvider {
+  name: string;
+  getWeather(latitude: number, longitude: number, at: Date): Promise<RunWeather | null>;
+}
+
+/**
+ * Offline provider for development and tests: conditions come from the
+ * nearest fixture location's typical weather for the month, with temperature
+ * varied over the local day (coolest around 03:00, warmest around 15:00).
+ */
+export function createFixtureWeatherProvider(fixtures: WeatherFixture[] = loadFixtures()): WeatherProvider {
+  return {
+    name: 'fixture',
+    async getWeather(latitude, longitude, at) {
+      if (fixtures.length === 0) return null;
+
+      const fixture = fixtures.reduce((nearest, candidate) =>
+        haversineDistance(latitude, longitude, candidate.latitude, candidate.longitude) <
+        haversineDistance(latitude, longitude, nearest.latitude, nearest.longitude)
+          ? candidate
+          : nearest
+      );
+
+      // Solar time from longitude is close enough for a daily cycle
+      const localHour = (at.getUTCHours() + at.getUTCMinutes() / 60 + longitude / 15 + 24) % 24;
+      const month = at.getUTCMonth();
+      const temperature = round(
+        fixture.monthlyTemperature[month] +
+          (fixture.dailyRange / 2) * Math.cos(((localHour - 15) / 24) * 2 * Math.PI)
+      );
+
+      return {
+        temperature,
+        feelsLike: round(feelsLike(temperature, fixture.humidity, fixture.windSpeed)),
+        humidity: fixture.humidity,
+        windSpeed: fixture.windSpeed,
+        windDirection: fixture.windDirection,
+        conditions: fixture.conditions[month],
+        description: `Typical ${fixture.name} weather`,
+        source: 'fixture',
+      };
+    },
+  };
+}
+
+const providers: Record<string, () => WeatherProvider> = {
+  fixture: () => createFixtureWeatherProvider(),
+};
+
+// undefined until WEATHER_PROVIDER has been read
+let activeProvider: WeatherProvider | null | undefined;
+
+/**
+ * The provider named by WEATHER_PROVIDER, or null when none is configured.
+ * Fixture weather is never used unless selected explicitly.
+ */
+export function getWeatherProvider(): WeatherProvider | null {
+  if (activeProvider === undefined) {
+    const name = process.env.WEATHER_PROVIDER;
+    const create = name ? providers[name] : undefined;
+    if (name && !create) throw new Error(`Unknown weather provider: ${name}`);
+    activeProvider = create ? create() : null;
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with a live API client or a test double
+ */
+export function setWeatherProvider(provider: WeatherProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Weather at a run's start, or null when no provider is configured. Lookups
+ * are best-effort: a failing provider leaves the run without weather rather
+ * than failing the request.
+ */
+export async function lookupRunWeather(
+  start: { latitude: number; longitude: number } | null | undefined,
+  at: Date
+): Promise<RunWeather | null> {
+  if (!start) return null;
+
+  try {
+    const provider = getWeatherProvider();
+    if (!provider) return null;
+    return await provider.getWeather(start.latitude, start.longitude, at);
+  } catch (error) {
+    console.error('Weather lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Weather to store on a run. Conditions reported by the app win when they
+ * include a temperature; otherwise the provider fills them in, keeping any
+ * description the app sent.
+ */
+export async function resolveRunWeather(
+  reported: Partial<RunWeather> | null | undefined,
+  start: { latitude: number; longitude: number } | null | undefined,
+  at: Date
+): Promise<RunWeather | null> {
+  if (reported?.temperature != null) {
+    const apparent = feelsLike(reported.temperature, reported.humidity ?? null, reported.windSpeed ?? null);
+    return parseRunWeather({ ...reported, feelsLike: reported.feelsLike ?? round(apparent), source: 'client' });
+  }
+
+  const weather = await lookupRunWeather(start, at);
+  if (!weather) return reported ? parseRunWeather({ ...reported, source: 'client' }) : null;
+
+  return { ...weather, description: reported?.description ?? weather.description };
+}
+
+function loadFixtures(): WeatherFixture[] {
+  const path = process.env.WEATHER_FIXTURE_PATH;
+  if (!path) return WEATHER_FIXTURES;
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,38 @@
+interface AthleteFields {
+  weightKg: number | null;
+  heightCm: number | null;
+  sex: string | null;
+  birthDate: Date | null;
+  isWeightPublic: boolean;
+  isHeightPublic: boolean;
+  isSexPublic: boolean;
+  isBirthDatePublic: boolean;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  heartRateZones: number[];
+}
+
+const PRIVACY_FLAGS = {
+  weightKg: 'isWeightPublic',
+  heightCm: 'isHeightPublic',
+  sex: 'isSexPublic',
+  birthDate: 'isBirthDatePublic',
+} as const;
+
+/**
+ * Blank out the athlete profile fields their owner hasn't made public, and
+ * the heart rate settings, which are never public. Owners always see
+ * everything.
+ */
+export function hidePrivateAthleteFields<T extends AthleteFields>(user: T, isOwner: boolean): T {
+  if (isOwner) return user;
+
+  const visible = { ...user };
+  for (const [field, flag] of Object.entries(PRIVACY_FLAGS) as Array<[keyof typeof PRIVACY_FLAGS, keyof AthleteFields]>) {
+    if (!user[flag]) visible[field] = null;
+  }
+  visible.maxHeartRate = null;
+  visible.restingHeartRate = null;
+  visible.heartRateZones = [];
+  return visible;
+}
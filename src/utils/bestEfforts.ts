@@ -0,0 +1,90 @@
+import { RecordDistance } from '@prisma/client';
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { TrackPoint } from './trackStats.js';
+import { KM_PER_MILE } from './units.js';
+
+// Standard distances in km
+export const RECORD_DISTANCES: Record<RecordDistance, number> = {
+  ONE_KM: 1,
+  ONE_MILE: KM_PER_MILE,
+  FIVE_KM: 5,
+  TEN_KM: 10,
+  HALF_MARATHON: 21.0975,
+  MARATHON: 42.195,
+};
+
+export const RECORD_LABELS: Record<RecordDistance, string> = {
+  ONE_KM: '1 km',
+  ONE_MILE: '1 mile',
+  FIVE_KM: '5 km',
+  TEN_KM: '10 km',
+  HALF_MARATHON: 'half marathon',
+  MARATHON: 'marathon',
+};
+
+export interface BestEffortResult {
+  distance: RecordDistance;
+  time: number; // seconds
+  startedAt: Date;
+}
+
+/**
+ * Fastest time over each standard distance anywhere inside a track, not just
+ * from the start. Paused segments add neither distance nor time.
+ */
+export function findBestEfforts(points: TrackPoint[], pauses: PauseInterval[] = []): BestEffortResult[] {
+  if (points.length < 2) return [];
+
+  // Cumulative distance (km) and moving time (ms) at each point
+  const distances = [0];
+  const times = [0];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const paused = isSegmentPaused(prev.timestamp, point.timestamp, pauses);
+    distances.push(distances[i - 1] + (paused
+      ? 0
+      : haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude)));
+    times.push(times[i - 1] + (paused ? 0 : point.timestamp.getTime() - prev.timestamp.getTime()));
+  }
+
+  const total = distances[distances.length - 1];
+  const results: BestEffortResult[] = [];
+
+  for (const [distance, km] of Object.entries(RECORD_DISTANCES) as Array<[RecordDistance, number]>) {
+    if (total < km) continue;
+
+    let best = Infinity;
+    let bestStart = 0;
+    let start = 0;
+
+    // Two pointers: for each end point, the window start is the last point at
+    // least `km` behind it; the exact start is interpolated inside the next segment
+    for (let end = 1; end < points.length; end++) {
+      if (distances[end] < km) continue;
+      while (start + 1 < end && distances[end] - distances[start + 1] >= km) start++;
+
+      const segment = distances[start + 1] - distances[start];
+      const overshoot = distances[end] - distances[start] - km;
+      const ratio = segment > 0 ? overshoot / segment : 0;
+      const startTime = times[start] + (times[start + 1] - times[start]) * ratio;
+      const elapsed = times[end] - startTime;
+
+      if (elapsed > 0 && elapsed < best) {
+        best = elapsed;
+        bestStart = start;
+      }
+    }
+
+    if (best < Infinity) {
+      results.push({
+        distance,
+        time: Math.round(best / 1000),
+        startedAt: points[bestStart].timestamp,
+      });
+    }
+  }
+
+  return results;
+}
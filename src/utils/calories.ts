@@ -0,0 +1,114 @@
+import { Sex } from '@prisma/client';
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { MOVING_SPEED_THRESHOLD, TrackPoint } from './trackStats.js';
+
+export interface AthleteProfile {
+  weightKg: number | null;
+  heightCm: number | null;
+  sex: Sex | null;
+  birthDate: Date | null;
+}
+
+// Used when nothing is known about the runner (kg)
+export const DEFAULT_WEIGHT_KG = 70;
+
+// Resting oxygen uptake of one MET (ml/kg/min)
+const RESTING_VO2 = 3.5;
+
+// Energy released per litre of oxygen (kcal)
+const KCAL_PER_LITRE_O2 = 5;
+
+// ACSM switches from the walking to the running equation around 8 km/h (m/min)
+const RUNNING_SPEED = 134;
+
+// The ACSM grade term works out to a fixed oxygen cost per metre climbed
+// (ml/kg/m); applying it to the smoothed total climb avoids summing GPS noise
+const RUNNING_CLIMB_VO2 = 0.9;
+
+/**
+ * Energy expenditure over a track with the ACSM walking/running equations,
+ * segment by segment so that pace changes are accounted for, plus the cost of
+ * the run's total climb (m). Paused and stationary segments are skipped.
+ */
+export function estimateTrackCalories(
+  points: TrackPoint[],
+  profile: AthleteProfile,
+  elevationGain: number,
+  pauses: PauseInterval[] = []
+): number {
+  const weight = profile.weightKg ?? DEFAULT_WEIGHT_KG;
+  const restingVo2 = personalRestingVo2(profile, points[0]?.timestamp ?? new Date());
+  let kcal = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (isSegmentPaused(prev.timestamp, point.timestamp, pauses)) continue;
+
+    const metres = haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude) * 1000;
+    const minutes = (point.timestamp.getTime() - prev.timestamp.getTime()) / 60000;
+    // Standing still burns no extra energy
+    if (minutes <= 0 || metres / (minutes * 60) < MOVING_SPEED_THRESHOLD) continue;
+
+    kcal += flatCalories(metres / minutes, minutes, weight, restingVo2);
+  }
+
+  kcal += (RUNNING_CLIMB_VO2 * elevationGain * weight * KCAL_PER_LITRE_O2) / 1000;
+
+  return Math.round(kcal);
+}
+
+/**
+ * Energy expenditure from distance and time alone, for runs without a GPS
+ * track (treadmill, manual entries, too few points)
+ */
+export function estimatePaceCalories(
+  distanceKm: number,
+  durationSeconds: number,
+  profile: AthleteProfile,
+  at: Date = new Date()
+): number {
+  if (distanceKm <= 0 || durationSeconds <= 0) return 0;
+
+  const minutes = durationSeconds / 60;
+  const kcal = flatCalories(
+    (distanceKm * 1000) / minutes,
+    minutes,
+    profile.weightKg ?? DEFAULT_WEIGHT_KG,
+    personalRestingVo2(profile, at)
+  );
+  return Math.round(kcal);
+}
+
+/**
+ * Whole years between a birth date and a given date
+ */
+export function ageOn(birthDate: Date, date: Date): number {
+  const age = date.getUTCFullYear() - birthDate.getUTCFullYear();
+  const beforeBirthday =
+    date.getUTCMonth() < birthDate.getUTCMonth() ||
+    (date.getUTCMonth() === birthDate.getUTCMonth() && date.getUTCDate() < birthDate.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+}
+
+// Level-ground cost; descents are treated as flat since they are not much
+// cheaper in practice
+function flatCalories(metresPerMinute: number, minutes: number, weightKg: number, restingVo2: number): number {
+  const activeVo2 = metresPerMinute >= RUNNING_SPEED ? 0.2 * metresPerMinute : 0.1 * metresPerMinute;
+
+  return ((activeVo2 + restingVo2) * weightKg * minutes * KCAL_PER_LITRE_O2) / 1000;
+}
+
+// Resting uptake from the Mifflin-St Jeor BMR when the profile allows it,
+// otherwise the textbook 3.5 ml/kg/min
+function personalRestingVo2(profile: AthleteProfile, at: Date): number {
+  const { weightKg, heightCm, sex, birthDate } = profile;
+  if (weightKg == null || heightCm == null || sex == null || birthDate == null) return RESTING_VO2;
+
+  const sexOffset = sex === 'MALE' ? 5 : sex === 'FEMALE' ? -161 : -78;
+  const bmr = 10 * weightKg + 6.25 * heightCm - 5 * ageOn(birthDate, at) + sexOffset; // kcal/day
+  if (bmr <= 0) return RESTING_VO2;
+
+  return (bmr / 1440 / KCAL_PER_LITRE_O2) * 1000 / weightKg;
+}
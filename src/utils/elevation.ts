@@ -0,0 +1,126 @@
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { TrackPoint } from './trackStats.js';
+
+export interface ElevationSummary {
+  highest: number; // m
+  lowest: number; // m
+  gain: number; // m
+  loss: number; // m
+}
+
+export interface ElevationProfilePoint {
+  distance: number; // km from the start, paused segments excluded
+  altitude: number; // smoothed, m
+}
+
+// Number of samples either side used to smooth altitude
+const ALTITUDE_SMOOTHING_RADIUS = 2;
+
+// Climbs and descents smaller than this are treated as noise (m)
+const CLIMB_THRESHOLD = Number(process.env.ELEVATION_THRESHOLD_M) || 3;
+
+// Profiles are thinned to about this many points for charting
+const MAX_PROFILE_POINTS = 300;
+
+/**
+ * Altitude for every point: gaps are filled by interpolating over time between
+ * the nearest recorded samples (held flat at either end), then the series is
+ * smoothed with a moving average. Null when the track has no altitude at all.
+ */
+export function cleanAltitudes(points: TrackPoint[]): number[] | null {
+  const known = points.flatMap((point, i) => (point.altitude != null ? [i] : []));
+  if (known.length === 0) return null;
+
+  // `next` walks forward to the first recorded sample after point i
+  let next = 0;
+  const filled = points.map((point, i) => {
+    while (next < known.length && known[next] <= i) next++;
+    if (point.altitude != null) return point.altitude;
+
+    if (next === known.length) return points[known[known.length - 1]].altitude!;
+    if (next === 0) return points[known[0]].altitude!;
+
+    const before = points[known[next - 1]];
+    const after = points[known[next]];
+    const span = after.timestamp.getTime() - before.timestamp.getTime();
+    const ratio = span > 0 ? (point.timestamp.getTime() - before.timestamp.getTime()) / span : 0;
+    return before.altitude! + (after.altitude! - before.altitude!) * ratio;
+  });
+
+  return filled.map((_, i) => {
+    const from = Math.max(0, i - ALTITUDE_SMOOTHING_RADIUS);
+    const to = Math.min(filled.length - 1, i + ALTITUDE_SMOOTHING_RADIUS);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += filled[j];
+    return sum / (to - from + 1);
+  });
+}
+
+/**
+ * Climb and descent with hysteresis: a change only counts once the smoothed
+ * altitude has moved at least the threshold away from the last turning point,
+ * so jitter on flat ground adds nothing.
+ */
+export function computeElevation(points: TrackPoint[]): ElevationSummary {
+  const altitudes = cleanAltitudes(points);
+  if (!altitudes) return { highest: 0, lowest: 0, gain: 0, loss: 0 };
+
+  let gain = 0;
+  let loss = 0;
+  let reference = altitudes[0];
+  let highest = altitudes[0];
+  let lowest = altitudes[0];
+
+  for (const altitude of altitudes) {
+    highest = Math.max(highest, altitude);
+    lowest = Math.min(lowest, altitude);
+
+    const delta = altitude - reference;
+    if (delta >= CLIMB_THRESHOLD) {
+      gain += delta;
+      reference = altitude;
+    } else if (delta <= -CLIMB_THRESHOLD) {
+      loss -= delta;
+      reference = altitude;
+    }
+  }
+
+  return { highest, lowest, gain, loss };
+}
+
+/**
+ * Distance-versus-altitude pairs for charting, thinned to an even spacing
+ */
+export function buildElevationProfile(
+  points: TrackPoint[],
+  pauses: PauseInterval[] = [],
+  maxPoints: number = MAX_PROFILE_POINTS
+): ElevationProfilePoint[] {
+  const altitudes = cleanAltitudes(points);
+  if (!altitudes) return [];
+
+  const profile: ElevationProfilePoint[] = [{ distance: 0, altitude: altitudes[0] }];
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (!isSegmentPaused(prev.timestamp, point.timestamp, pauses)) {
+      distance += haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    }
+    profile.push({ distance, altitude: altitudes[i] });
+  }
+
+  if (profile.length <= maxPoints) return profile;
+
+  // Keep the first point at or past each step, plus the finish
+  const step = distance / (maxPoints - 1);
+  const thinned = [profile[0]];
+  for (const point of profile) {
+    if (point.distance >= thinned[thinned.length - 1].distance + step) thinned.push(point);
+  }
+  const last = profile[profile.length - 1];
+  if (thinned[thinned.length - 1] !== last) thinned.push(last);
+
+  return thinned;
+}
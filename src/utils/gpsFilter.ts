@@ -0,0 +1,76 @@
+import { haversineDistance } from './geo.js';
+
+export interface IncomingCoordinate {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  timestamp: Date;
+}
+
+export interface GpsFilterOptions {
+  maxAccuracy: number; // metres; points reporting worse accuracy are dropped
+  maxSpeed: number; // m/s between consecutive accepted points
+  previous?: IncomingCoordinate | null; // last point already stored for the run
+  existingTimestamps?: Set<number>; // timestamps already stored for the run
+}
+
+export interface GpsFilterResult<T> {
+  accepted: T[];
+  rejected: {
+    accuracy: number;
+    speed: number;
+    duplicate: number;
+  };
+}
+
+export const DEFAULT_MAX_ACCURACY = Number(process.env.GPS_MAX_ACCURACY_M) || 50;
+export const DEFAULT_MAX_SPEED = Number(process.env.GPS_MAX_SPEED_MPS) || 12;
+
+/**
+ * Drop inaccurate fixes, repeated timestamps and "teleports" whose implied
+ * speed from the last accepted point is not humanly possible. Input is
+ * processed in timestamp order.
+ */
+export function filterCoordinates<T extends IncomingCoordinate>(
+  coordinates: T[],
+  options: GpsFilterOptions
+): GpsFilterResult<T> {
+  const result: GpsFilterResult<T> = {
+    accepted: [],
+    rejected: { accuracy: 0, speed: 0, duplicate: 0 },
+  };
+
+  const seen = new Set(options.existingTimestamps);
+  let last: IncomingCoordinate | null = options.previous ?? null;
+
+  const ordered = [...coordinates].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const coord of ordered) {
+    const time = coord.timestamp.getTime();
+
+    if (seen.has(time)) {
+      result.rejected.duplicate++;
+      continue;
+    }
+
+    if (coord.accuracy != null && coord.accuracy > options.maxAccuracy) {
+      result.rejected.accuracy++;
+      continue;
+    }
+
+    if (last) {
+      const seconds = (time - last.timestamp.getTime()) / 1000;
+      const metres = haversineDistance(last.latitude, last.longitude, coord.latitude, coord.longitude) * 1000;
+      if (seconds > 0 && metres / seconds > options.maxSpeed) {
+        result.rejected.speed++;
+        continue;
+      }
+    }
+
+    seen.add(time);
+    result.accepted.push(coord);
+    last = coord;
+  }
+
+  return result;
+}
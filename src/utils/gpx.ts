@@ -0,0 +1,65 @@
+import { AppError } from '../middleware/errorHandler.js';
+import { TrackPoint } from './trackStats.js';
+
+export interface ParsedGpx {
+  points: TrackPoint[];
+}
+
+const TRKPT_REGEX = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+
+/**
+ * Parse the track points out of a GPX document. Heart rate is read from the
+ * Garmin TrackPointExtension (`<gpxtpx:hr>`) or a plain `<hr>` extension.
+ */
+export function parseGpx(xml: string): ParsedGpx {
+  if (!/<gpx[\s>]/.test(xml)) {
+    throw new AppError('Invalid GPX: missing <gpx> root element', 400);
+  }
+
+  const points: TrackPoint[] = [];
+
+  for (const match of xml.matchAll(TRKPT_REGEX)) {
+    const attrs = match[1];
+    const body = match[2] || '';
+
+    const latitude = Number(readAttribute(attrs, 'lat') ?? NaN);
+    const longitude = Number(readAttribute(attrs, 'lon') ?? NaN);
+    if (
+      !Number.isFinite(latitude) || latitude < -90 || latitude > 90 ||
+      !Number.isFinite(longitude) || longitude < -180 || longitude > 180
+    ) {
+      throw new AppError('Invalid GPX: track point with invalid lat/lon', 400);
+    }
+
+    // Points without a timestamp cannot contribute to duration or pace
+    const time = readElement(body, 'time');
+    if (!time) continue;
+    const timestamp = new Date(time);
+    if (isNaN(timestamp.getTime())) continue;
+
+    const ele = readElement(body, 'ele');
+    const altitude = ele !== null && Number.isFinite(Number(ele)) ? Number(ele) : null;
+
+    const hr = readElement(body, 'hr');
+    const heartRate = hr !== null && Number.isInteger(Number(hr)) && Number(hr) > 0 && Number(hr) <= 300
+      ? Number(hr)
+      : null;
+
+    points.push({ latitude, longitude, altitude, timestamp, heartRate });
+  }
+
+  points.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return { points };
+}
+
+function readAttribute(attrs: string, attr: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${attr}\\s*=\\s*["']([^"']*)["']`));
+  return match ? match[1] : null;
+}
+
+// Matches both `<hr>` and namespaced forms such as `<gpxtpx:hr>`
+function readElement(body: string, tag: string): string | null {
+  const match = body.match(new RegExp(`<(?:[\\w-]+:)?${tag}>([^<]*)</(?:[\\w-]+:)?${tag}>`));
+  return match ? match[1].trim() : null;
+}
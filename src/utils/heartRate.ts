@@ -0,0 +1,133 @@
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { TrackPoint } from './trackStats.js';
+
+export interface HeartRateSettings {
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  heartRateZones: number[]; // custom lower bounds of zones 2-5, bpm
+}
+
+export interface HeartRateAnalysis {
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+  cardiacDrift: number | null; // % drop in distance per heartbeat, second half vs first
+  hrZoneSeconds: number[]; // time in zones 1-5
+}
+
+export const ZONE_COUNT = 5;
+
+// Used when the runner has not told us their max heart rate
+export const DEFAULT_MAX_HEART_RATE = 190;
+
+// Lower bounds of zones 2-5 as a fraction of max (or reserve) heart rate
+const ZONE_FRACTIONS = [0.6, 0.7, 0.8, 0.9];
+
+// Longer gaps between samples are capped so a dropped sensor doesn't land
+// minutes in one zone
+const MAX_SAMPLE_GAP_MS = 30 * 1000;
+
+// Drift is meaningless on short efforts
+const MIN_DRIFT_DURATION_MS = 20 * 60 * 1000;
+
+/**
+ * Lower bounds (bpm) of zones 2-5. Custom boundaries win; otherwise zones are
+ * derived from heart rate reserve when a resting rate is known, else from max.
+ */
+export function resolveZoneBounds(settings: HeartRateSettings): number[] {
+  if (settings.heartRateZones.length === ZONE_COUNT - 1) {
+    return settings.heartRateZones;
+  }
+
+  const max = settings.maxHeartRate ?? DEFAULT_MAX_HEART_RATE;
+  const resting = settings.restingHeartRate;
+
+  return ZONE_FRACTIONS.map((fraction) =>
+    Math.round(resting != null ? resting + (max - resting) * fraction : max * fraction)
+  );
+}
+
+/**
+ * Zone index (0-based) for a heart rate given the zone 2-5 lower bounds
+ */
+export function zoneFor(heartRate: number, bounds: number[]): number {
+  let zone = 0;
+  while (zone < bounds.length && heartRate >= bounds[zone]) zone++;
+  return zone;
+}
+
+/**
+ * Time in zone, average/max heart rate and cardiac drift for a run. Each
+ * sample's heart rate is held until the next sample; paused segments are
+ * ignored.
+ */
+export function analyzeHeartRate(
+  points: TrackPoint[],
+  bounds: number[],
+  pauses: PauseInterval[] = []
+): HeartRateAnalysis {
+  const hrZoneSeconds = new Array(ZONE_COUNT).fill(0);
+  const samples = points.filter((point) => point.heartRate != null);
+
+  if (samples.length === 0) {
+    return { avgHeartRate: null, maxHeartRate: null, cardiacDrift: null, hrZoneSeconds };
+  }
+
+  // Time-weighted segments carrying the heart rate at their start
+  const segments: Array<{ ms: number; heartRate: number; km: number }> = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (prev.heartRate == null) continue;
+    if (isSegmentPaused(prev.timestamp, point.timestamp, pauses)) continue;
+
+    const ms = Math.min(point.timestamp.getTime() - prev.timestamp.getTime(), MAX_SAMPLE_GAP_MS);
+    if (ms <= 0) continue;
+
+    segments.push({
+      ms,
+      heartRate: prev.heartRate,
+      km: haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude),
+    });
+    hrZoneSeconds[zoneFor(prev.heartRate, bounds)] += ms / 1000;
+  }
+
+  const totalMs = segments.reduce((sum, segment) => sum + segment.ms, 0);
+  const avgHeartRate = totalMs > 0
+    ? Math.round(segments.reduce((sum, segment) => sum + segment.heartRate * segment.ms, 0) / totalMs)
+    : Math.round(samples.reduce((sum, point) => sum + point.heartRate!, 0) / samples.length);
+
+  return {
+    avgHeartRate,
+    maxHeartRate: samples.reduce((max, point) => Math.max(max, point.heartRate!), 0),
+    cardiacDrift: totalMs >= MIN_DRIFT_DURATION_MS ? computeDrift(segments, totalMs) : null,
+    hrZoneSeconds: hrZoneSeconds.map(Math.round),
+  };
+}
+
+// Aerobic decoupling: how much the distance covered per heartbeat falls between
+// the first and second half of the run (by time), as a percentage
+function computeDrift(segments: Array<{ ms: number; heartRate: number; km: number }>, totalMs: number) {
+  const halves = [
+    { km: 0, beats: 0 },
+    { km: 0, beats: 0 },
+  ];
+
+  let elapsed = 0;
+  for (const segment of segments) {
+    const half = elapsed < totalMs / 2 ? halves[0] : halves[1];
+    half.km += segment.km;
+    half.beats += segment.heartRate * segment.ms;
+    elapsed += segment.ms;
+  }
+
+  // Distance per heartbeat
+  const efficiency = (half: { km: number; beats: number }) =>
+    half.beats > 0 ? half.km / half.beats : 0;
+
+  const first = efficiency(halves[0]);
+  const second = efficiency(halves[1]);
+  if (first === 0) return null;
+
+  return Math.round(((first - second) / first) * 1000) / 10;
+}
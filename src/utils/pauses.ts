@@ -0,0 +1,57 @@
+export interface PauseInterval {
+  pausedAt: Date;
+  resumedAt: Date | null; // null while the run is still paused
+}
+
+export interface RunTiming {
+  elapsedTime: number; // seconds from start to end
+  pausedTime: number; // seconds spent paused
+  movingTime: number; // elapsed minus paused
+}
+
+/**
+ * Split the wall-clock span of a run into moving and paused time. A pause that
+ * was never resumed is treated as lasting until `endTime`.
+ */
+export function computeRunTiming(startTime: Date, endTime: Date, pauses: PauseInterval[]): RunTiming {
+  const start = startTime.getTime();
+  const end = Math.max(start, endTime.getTime());
+
+  let pausedMs = 0;
+  for (const pause of pauses) {
+    const from = Math.max(start, pause.pausedAt.getTime());
+    const to = Math.min(end, (pause.resumedAt ?? endTime).getTime());
+    if (to > from) pausedMs += to - from;
+  }
+
+  const elapsedTime = Math.round((end - start) / 1000);
+  const pausedTime = Math.min(elapsedTime, Math.round(pausedMs / 1000));
+
+  return {
+    elapsedTime,
+    pausedTime,
+    movingTime: elapsedTime - pausedTime,
+  };
+}
+
+/**
+ * Whether a point in time falls inside any pause interval
+ */
+export function isWithinPause(time: Date, pauses: PauseInterval[]): boolean {
+  const t = time.getTime();
+  return pauses.some((pause) =>
+    t >= pause.pausedAt.getTime() && (pause.resumedAt === null || t <= pause.resumedAt.getTime())
+  );
+}
+
+/**
+ * Whether the track segment between two timestamps overlaps a pause, in which
+ * case its distance and time must not count towards the run
+ */
+export function isSegmentPaused(from: Date, to: Date, pauses: PauseInterval[]): boolean {
+  const start = from.getTime();
+  const end = to.getTime();
+  return pauses.some((pause) =>
+    start < (pause.resumedAt?.getTime() ?? Infinity) && end > pause.pausedAt.getTime()
+  );
+}
@@ -0,0 +1,22 @@
+import { GoalPeriod } from '@prisma/client';
+
+/**
+ * Calendar bounds (UTC) of the week, month or year containing `date`. Weeks
+ * start on Monday. `end` is exclusive.
+ */
+export function getPeriodBounds(period: GoalPeriod, date: Date = new Date()): { start: Date; end: Date } {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case 'WEEK': {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      const start = new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+      return { start, end: new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000) };
+    }
+    case 'MONTH':
+      return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+    case 'YEAR':
+      return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+}
@@ -0,0 +1,176 @@
+import { EARTH_RADIUS_KM } from './geo.js';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TrackShape {
+  polyline: string; // Google encoded polyline, precision 5
+  pointCount: number; // points in the raw track
+  simplifiedPointCount: number; // points in the encoded shape
+}
+
+export interface TrackShapeOptions {
+  tolerance?: number; // metres
+  includePoints?: boolean; // keep the raw coordinates alongside the shape
+}
+
+export const DEFAULT_SIMPLIFY_TOLERANCE = Number(process.env.TRACK_SIMPLIFY_TOLERANCE_M) || 5;
+
+/**
+ * Douglas–Peucker simplification: keep only the points that deviate more than
+ * `tolerance` metres from the line between the points kept around them.
+ * Iterative so long tracks can't overflow the stack.
+ */
+export function simplifyTrack<T extends LatLng>(points: T[], tolerance: number = DEFAULT_SIMPLIFY_TOLERANCE): T[] {
+  if (points.length <= 2 || tolerance <= 0) return points;
+
+  // Project onto a local plane in metres; accurate enough at running scale
+  const origin = points[0];
+  const metresPerDegree = (EARTH_RADIUS_KM * 1000 * Math.PI) / 180;
+  const cosLat = Math.cos(origin.latitude * (Math.PI / 180));
+  const xy = points.map((p) => [
+    (p.longitude - origin.longitude) * metresPerDegree * cosLat,
+    (p.latitude - origin.latitude) * metresPerDegree,
+  ]);
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(xy[i], xy[first], xy[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Encode points with Google's polyline algorithm
+ */
+export function encodePolyline(points: LatLng[], precision = 5): string {
+  const factor = Math.pow(10, precision);
+  let lastLat = 0;
+  let lastLng = 0;
+  let result = '';
+
+  for (const point of points) {
+    const lat = Math.round(point.latitude * factor);
+    const lng = Math.round(point.longitude * factor);
+    result += encodeValue(lat - lastLat) + encodeValue(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+  }
+
+  return result;
+}
+
+/**
+ * Decode a Google encoded polyline back into points
+ */
+export function decodePolyline(encoded: string, precision = 5): LatLng[] {
+  const factor = Math.pow(10, precision);
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = () => {
+    let shift = 0;
+    let value = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      value |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return value & 1 ? ~(value >> 1) : value >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push({ latitude: lat / factor, longitude: lng / factor });
+  }
+
+  return points;
+}
+
+/**
+ * Compact full-route shape of a track
+ */
+export function buildTrackShape(points: LatLng[], tolerance: number = DEFAULT_SIMPLIFY_TOLERANCE): TrackShape {
+  const simplified = simplifyTrack(points, tolerance);
+  return {
+    polyline: encodePolyline(simplified),
+    pointCount: points.length,
+    simplifiedPointCount: simplified.length,
+  };
+}
+
+/**
+ * Run fields holding the stored shape of a finished track
+ */
+export function storedTrackShape(points: LatLng[]): { trackPolyline: string; trackPointCount: number } {
+  const shape = buildTrackShape(points);
+  return { trackPolyline: shape.polyline, trackPointCount: shape.pointCount };
+}
+
+/**
+ * Shape from a stored polyline. `filter` drops points (e.g. inside privacy
+ * zones) and a tolerance coarser than the stored one simplifies it further;
+ * finer tolerances need the raw points.
+ */
+export function shapeFromStored(
+  polyline: string,
+  pointCount: number,
+  tolerance: number = DEFAULT_SIMPLIFY_TOLERANCE,
+  filter?: (points: LatLng[]) => LatLng[]
+): TrackShape {
+  if (!filter && tolerance <= DEFAULT_SIMPLIFY_TOLERANCE) {
+    return { polyline, pointCount, simplifiedPointCount: decodePolyline(polyline).length };
+  }
+
+  let points = decodePolyline(polyline);
+  if (filter) points = filter(points);
+  if (tolerance > DEFAULT_SIMPLIFY_TOLERANCE) points = simplifyTrack(points, tolerance);
+  return { polyline: encodePolyline(points), pointCount, simplifiedPointCount: points.length };
+}
+
+// Distance from p to the segment a–b in projected metres
+function segmentDistance(p: number[], a: number[], b: number[]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let result = '';
+  while (v >= 0x20) {
+    result += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return result + String.fromCharCode(v + 63);
+}
@@ -0,0 +1,66 @@
+import { haversineDistance } from './geo.js';
+
+export interface PrivacyZoneArea {
+  latitude: number;
+  longitude: number;
+  radius: number; // m
+}
+
+interface Located {
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Parts of a run or post that can carry a location
+interface RunLocations {
+  coordinates?: Array<{ latitude: number; longitude: number }>;
+  mapSnapshotUrl?: string | null;
+  trackPolyline?: string | null;
+  photos?: Located[];
+  posts?: Located[];
+}
+
+export function isInPrivacyZone(latitude: number, longitude: number, zones: PrivacyZoneArea[]): boolean {
+  return zones.some(
+    (zone) => haversineDistance(latitude, longitude, zone.latitude, zone.longitude) * 1000 <= zone.radius
+  );
+}
+
+/**
+ * Drop every track point inside a zone. Runs that start or finish at home
+ * lose their first and last stretch; passes through a zone mid-run leave a gap.
+ */
+export function stripPrivacyZones<T extends { latitude: number; longitude: number }>(
+  points: T[],
+  zones: PrivacyZoneArea[]
+): T[] {
+  if (zones.length === 0) return points;
+  return points.filter((point) => !isInPrivacyZone(point.latitude, point.longitude, zones));
+}
+
+/**
+ * Blank out a single location (photo, post) that falls inside a zone
+ */
+export function hideLocation<T extends Located>(item: T, zones: PrivacyZoneArea[]): T {
+  if (item.latitude == null || item.longitude == null) return item;
+  if (!isInPrivacyZone(item.latitude, item.longitude, zones)) return item;
+  return { ...item, latitude: null, longitude: null };
+}
+
+/**
+ * Apply an owner's zones to everything location-bearing on a run: its track,
+ * photo locations and the locations of posts sharing it. The map snapshot
+ * and stored polyline draw the whole route, so they are dropped; shape the
+ * track with the zones first where it is needed.
+ */
+export function hideRunLocations<T extends RunLocations>(run: T, zones: PrivacyZoneArea[]): T {
+  if (zones.length === 0) return run;
+  return {
+    ...run,
+    ...(run.coordinates && { coordinates: stripPrivacyZones(run.coordinates, zones) }),
+    ...(run.mapSnapshotUrl !== undefined && { mapSnapshotUrl: null }),
+    ...(run.trackPolyline !== undefined && { trackPolyline: null }),
+    ...(run.photos && { photos: run.photos.map((photo) => hideLocation(photo, zones)) }),
+    ...(run.posts && { posts: run.posts.map((post) => hideLocation(post, zones)) }),
+  };
+}
@@ -0,0 +1,251 @@
+import { EARTH_RADIUS_KM, haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { TrackPoint } from './trackStats.js';
+import { LatLng } from './polyline.js';
+
+export interface ComparableSplit {
+  km: number;
+  unit: string;
+  time: number;
+  pace: number;
+  avgHeartRate: number | null;
+}
+
+export interface ComparisonPoint {
+  distance: number; // km along the aligned path
+  timeA: number; // seconds of moving time to reach this distance
+  timeB: number;
+  gap: number; // timeB - timeA; positive when B is behind
+  paceA: number; // min/km over the preceding sample
+  paceB: number;
+  paceDelta: number;
+  heartRateA: number | null;
+  heartRateB: number | null;
+  heartRateDelta: number | null;
+}
+
+export interface SplitComparison {
+  unit: string;
+  km: number;
+  timeA: number | null;
+  timeB: number | null;
+  timeDelta: number | null;
+  paceA: number | null;
+  paceB: number | null;
+  paceDelta: number | null;
+  heartRateA: number | null;
+  heartRateB: number | null;
+  heartRateDelta: number | null;
+}
+
+// Progress along a path: parallel arrays of km, moving seconds and heart rate
+interface Progress {
+  distance: number[];
+  time: number[];
+  heartRate: Array<number | null>;
+}
+
+// Spacing of comparison samples, widened on long runs to bound the response
+const SAMPLE_STEP_KM = 0.1;
+const MAX_SAMPLES = 500;
+
+// Run points further than this from the route are ignored when aligning (km)
+const MAX_ROUTE_OFFSET_KM = 0.1;
+
+// Route segments searched ahead of the last match; keeps progress monotonic
+// on loops and out-and-back routes that pass the same spot twice
+const ROUTE_SEARCH_WINDOW = 40;
+
+/**
+ * Cumulative distance and moving time along a run's own track. Paused
+ * segments add neither.
+ */
+export function trackProgress(points: TrackPoint[], pauses: PauseInterval[] = []): Progress {
+  const progress: Progress = { distance: [], time: [], heartRate: [] };
+  if (points.length === 0) return progress;
+
+  progress.distance.push(0);
+  progress.time.push(0);
+  progress.heartRate.push(points[0].heartRate ?? null);
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const paused = isSegmentPaused(prev.timestamp, point.timestamp, pauses);
+    const km = paused ? 0 : haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    const seconds = paused ? 0 : (point.timestamp.getTime() - prev.timestamp.getTime()) / 1000;
+
+    progress.distance.push(progress.distance[i - 1] + km);
+    progress.time.push(progress.time[i - 1] + seconds);
+    progress.heartRate.push(point.heartRate ?? null);
+  }
+
+  return progress;
+}
+
+/**
+ * Progress measured along a planned route instead of the run's own GPS
+ * distance, so that two runs of the same route line up at the same landmarks
+ * even when their recorded distances differ. Points that stray off the route
+ * are dropped.
+ */
+export function routeProgress(points: TrackPoint[], route: LatLng[], pauses: PauseInterval[] = []): Progress {
+  const own = trackProgress(points, pauses);
+  const progress: Progress = { distance: [], time: [], heartRate: [] };
+  if (route.length < 2) return progress;
+
+  const routeDistance = [0];
+  for (let i = 1; i < route.length; i++) {
+    routeDistance.push(routeDistance[i - 1] + haversineDistance(
+      route[i - 1].latitude, route[i - 1].longitude, route[i].latitude, route[i].longitude
+    ));
+  }
+
+  let segment = 0;
+  let reached = 0;
+  let startTime: number | null = null;
+
+  points.forEach((point, i) => {
+    let best: { offset: number; along: number; segment: number } | null = null;
+    const last = Math.min(route.length - 1, segment + ROUTE_SEARCH_WINDOW);
+
+    for (let s = segment; s < last; s++) {
+      const { offset, ratio } = projectOntoSegment(point, route[s], route[s + 1]);
+      if (!best || offset < best.offset) {
+        best = { offset, along: routeDistance[s] + ratio * (routeDistance[s + 1] - routeDistance[s]), segment: s };
+      }
+    }
+
+    if (!best || best.offset > MAX_ROUTE_OFFSET_KM) return;
+
+    // Time counts from where the run joined the route
+    if (startTime === null) startTime = own.time[i];
+    segment = best.segment;
+    reached = Math.max(reached, best.along);
+    progress.distance.push(reached);
+    progress.time.push(own.time[i] - startTime);
+    progress.heartRate.push(own.heartRate[i]);
+  });
+
+  return progress;
+}
+
+/**
+ * Sample two progress curves at the same distances and report the running
+ * time gap, pace and heart rate differences. Deltas are B minus A.
+ */
+export function compareProgress(a: Progress, b: Progress): ComparisonPoint[] {
+  const length = Math.min(a.distance[a.distance.length - 1] ?? 0, b.distance[b.distance.length - 1] ?? 0);
+  if (length <= 0) return [];
+
+  const step = Math.max(SAMPLE_STEP_KM, length / MAX_SAMPLES);
+  const samples: ComparisonPoint[] = [];
+  let previous = { distance: 0, timeA: timeAt(a, 0), timeB: timeAt(b, 0) };
+
+  const count = Math.ceil(length / step - 1e-9);
+
+  for (let i = 1; i <= count; i++) {
+    const d = Math.min(i * step, length);
+    const timeA = timeAt(a, d);
+    const timeB = timeAt(b, d);
+    const span = d - previous.distance;
+    const paceA = span > 0 ? (timeA - previous.timeA) / 60 / span : 0;
+    const paceB = span > 0 ? (timeB - previous.timeB) / 60 / span : 0;
+    const heartRateA = heartRateAt(a, d);
+    const heartRateB = heartRateAt(b, d);
+
+    samples.push({
+      distance: d,
+      timeA: Math.round(timeA),
+      timeB: Math.round(timeB),
+      gap: Math.round(timeB - timeA),
+      paceA,
+      paceB,
+      paceDelta: paceB - paceA,
+      heartRateA,
+      heartRateB,
+      heartRateDelta: heartRateA != null && heartRateB != null ? heartRateB - heartRateA : null,
+    });
+
+    previous = { distance: d, timeA, timeB };
+  }
+
+  return samples;
+}
+
+/**
+ * Pair up the stored splits of two runs by unit and index
+ */
+export function compareSplits(a: ComparableSplit[], b: ComparableSplit[]): SplitComparison[] {
+  const key = (split: ComparableSplit) => `${split.unit}:${split.km}`;
+  const byKeyA = new Map(a.map((split) => [key(split), split]));
+  const byKeyB = new Map(b.map((split) => [key(split), split]));
+  const keys = [...new Set([...byKeyA.keys(), ...byKeyB.keys()])];
+
+  const delta = (x: number | null | undefined, y: number | null | undefined) =>
+    x != null && y != null ? y - x : null;
+
+  return keys
+    .map((k) => {
+      const splitA = byKeyA.get(k);
+      const splitB = byKeyB.get(k);
+      const reference = (splitA ?? splitB)!;
+      return {
+        unit: reference.unit,
+        km: reference.km,
+        timeA: splitA?.time ?? null,
+        timeB: splitB?.time ?? null,
+        timeDelta: delta(splitA?.time, splitB?.time),
+        paceA: splitA?.pace ?? null,
+        paceB: splitB?.pace ?? null,
+        paceDelta: delta(splitA?.pace, splitB?.pace),
+        heartRateA: splitA?.avgHeartRate ?? null,
+        heartRateB: splitB?.avgHeartRate ?? null,
+        heartRateDelta: delta(splitA?.avgHeartRate, splitB?.avgHeartRate),
+      };
+    })
+    .sort((x, y) => x.unit.localeCompare(y.unit) || x.km - y.km);
+}
+
+// First index whose distance reaches d (distances are non-decreasing)
+function indexAt(progress: Progress, d: number): number {
+  let low = 0;
+  let high = progress.distance.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (progress.distance[mid] < d) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function timeAt(progress: Progress, d: number): number {
+  const i = indexAt(progress, d);
+  if (i === 0) return progress.time[0];
+
+  const span = progress.distance[i] - progress.distance[i - 1];
+  const ratio = span > 0 ? (d - progress.distance[i - 1]) / span : 1;
+  return progress.time[i - 1] + ratio * (progress.time[i] - progress.time[i - 1]);
+}
+
+function heartRateAt(progress: Progress, d: number): number | null {
+  return progress.heartRate[indexAt(progress, d)] ?? null;
+}
+
+// Distance (km) from a point to the segment a–b and how far along it the
+// closest point lies (0-1), on a local flat projection
+function projectOntoSegment(point: LatLng, a: LatLng, b: LatLng): { offset: number; ratio: number } {
+  const kmPerDegree = (EARTH_RADIUS_KM * Math.PI) / 180;
+  const cosLat = Math.cos(a.latitude * (Math.PI / 180));
+  const toXY = (p: LatLng) => [
+    (p.longitude - a.longitude) * kmPerDegree * cosLat,
+    (p.latitude - a.latitude) * kmPerDegree,
+  ];
+
+  const [px, py] = toXY(point);
+  const [bx, by] = toXY(b);
+  const lengthSq = bx * bx + by * by;
+  const ratio = lengthSq > 0 ? Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq)) : 0;
+
+  return { offset: Math.hypot(px - ratio * bx, py - ratio * by), ratio };
+}
@@ -0,0 +1,263 @@
+import { Run, RunCoordinate, RunPause, RunPhoto, RunSplit } from '@prisma/client';
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+
+export type ExportableRun = Run & {
+  coordinates: RunCoordinate[];
+  splits: RunSplit[];
+  photos: RunPhoto[];
+  pauses: RunPause[];
+};
+
+export type ExportFormat = 'gpx' | 'tcx' | 'geojson';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+  geojson: 'application/geo+json',
+};
+
+/**
+ * Serialise a run (with ordered coordinates, splits, photos and pauses) to the given format
+ */
+export function exportRun(run: ExportableRun, format: ExportFormat): string {
+  switch (format) {
+    case 'gpx':
+      return toGpx(run);
+    case 'tcx':
+      return toTcx(run);
+    case 'geojson':
+      return JSON.stringify(toGeoJson(run));
+  }
+}
+
+function toGpx(run: ExportableRun): string {
+  const waypoints = run.photos
+    .filter((photo) => photo.latitude != null && photo.longitude != null)
+    .map((photo) => [
+      `  <wpt lat="${photo.latitude}" lon="${photo.longitude}">`,
+      `    <time>${photo.takenAt.toISOString()}</time>`,
+      photo.caption ? `    <name>${escapeXml(photo.caption)}</name>` : null,
+      `    <link href="${escapeXml(photo.imageUrl)}"><type>image</type></link>`,
+      '  </wpt>',
+    ].filter(Boolean).join('\n'));
+
+  const trackPoints = run.coordinates.map((coord) => {
+    const extensions = [
+      coord.heartRate != null ? `<gpxtpx:hr>${coord.heartRate}</gpxtpx:hr>` : null,
+      coord.speed != null ? `<gpxtpx:speed>${coord.speed}</gpxtpx:speed>` : null,
+    ].filter(Boolean).join('');
+
+    return [
+      `      <trkpt lat="${coord.latitude}" lon="${coord.longitude}">`,
+      coord.altitude != null ? `        <ele>${coord.altitude}</ele>` : null,
+      `        <time>${coord.timestamp.toISOString()}</time>`,
+      extensions
+        ? `        <extensions><gpxtpx:TrackPointExtension>${extensions}</gpxtpx:TrackPointExtension></extensions>`
+        : null,
+      '      </trkpt>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Runner" xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+    `  <metadata><time>${run.startTime.toISOString()}</time></metadata>`,
+    ...waypoints,
+    '  <trk>',
+    `    <name>Run ${run.startTime.toISOString()}</name>`,
+    '    <type>running</type>',
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function toTcx(run: ExportableRun): string {
+  const cumulative = cumulativeDistances(run.coordinates, run.pauses);
+  const totalDistance = cumulative[cumulative.length - 1] ?? 0;
+  const runEnd = (run.endTime ?? run.coordinates[run.coordinates.length - 1]?.timestamp ?? run.startTime).getTime();
+
+  // Splits become laps, cut where the moving distance reaches each kilometre
+  // (split times exclude pauses, so they can't be stepped through on the
+  // clock); a run without splits is exported as a single lap
+  const laps: Array<{ start: Date; end: Date; time: number; distance: number; avgHeartRate: number | null }> = [];
+  let lapStart = run.startTime.getTime();
+  let lapStartDistance = 0;
+  const kmSplits = run.splits.filter((split) => split.unit === 'KM').sort((a, b) => a.km - b.km);
+  for (const split of kmSplits) {
+    const endDistance = Math.min(split.km * 1000, totalDistance);
+    const lapEnd = endDistance < totalDistance ? timeAt(run.coordinates, cumulative, endDistance) : runEnd;
+    laps.push({
+      start: new Date(lapStart),
+      end: new Date(lapEnd),
+      time: split.time,
+      distance: endDistance - lapStartDistance,
+      avgHeartRate: split.avgHeartRate,
+    });
+    lapStart = lapEnd;
+    lapStartDistance = endDistance;
+  }
+  if (laps.length === 0 || lapStart < runEnd) {
+    laps.push({
+      start: new Date(lapStart),
+      end: new Date(runEnd),
+      time: Math.max(0, Math.round((runEnd - lapStart) / 1000)),
+      distance: Math.max(0, run.distance * 1000 - lapStartDistance),
+      avgHeartRate: null,
+    });
+  }
+
+  const lapXml = laps.map((lap, index) => {
+    const isLast = index === laps.length - 1;
+    const points = run.coordinates
+      .map((coord, i) => ({ coord, distance: cumulative[i] }))
+      .filter(({ coord }) => {
+        const t = coord.timestamp.getTime();
+        return t >= lap.start.getTime() && (isLast ? t <= lap.end.getTime() : t < lap.end.getTime());
+      })
+      .map(({ coord, distance }) => [
+        '          <Trackpoint>',
+        `            <Time>${coord.timestamp.toISOString()}</Time>`,
+        `            <Position><LatitudeDegrees>${coord.latitude}</LatitudeDegrees><LongitudeDegrees>${coord.longitude}</LongitudeDegrees></Position>`,
+        coord.altitude != null ? `            <AltitudeMeters>${coord.altitude}</AltitudeMeters>` : null,
+        `            <DistanceMeters>${distance.toFixed(1)}</DistanceMeters>`,
+        coord.heartRate != null
+          ? `            <HeartRateBpm><Value>${coord.heartRate}</Value></HeartRateBpm>`
+          : null,
+        coord.speed != null
+          ? `            <Extensions><ns3:TPX><ns3:Speed>${coord.speed}</ns3:Speed></ns3:TPX></Extensions>`
+          : null,
+        '          </Trackpoint>',
+      ].filter(Boolean).join('\n'));
+
+    return [
+      `      <Lap StartTime="${lap.start.toISOString()}">`,
+      `        <TotalTimeSeconds>${lap.time}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${lap.distance.toFixed(1)}</DistanceMeters>`,
+      index === 0 ? `        <Calories>${run.calories}</Calories>` : '        <Calories>0</Calories>',
+      lap.avgHeartRate != null
+        ? `        <AverageHeartRateBpm><Value>${lap.avgHeartRate}</Value></AverageHeartRateBpm>`
+        : null,
+      '        <Intensity>Active</Intensity>',
+      '        <TriggerMethod>Distance</TriggerMethod>',
+      '        <Track>',
+      ...points,
+      '        </Track>',
+      '      </Lap>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    '  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">',
+    '  <Activities>',
+    '    <Activity Sport="Running">',
+    `      <Id>${run.startTime.toISOString()}</Id>`,
+    ...lapXml,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+}
+
+function toGeoJson(run: ExportableRun) {
+  const photoFeatures = run.photos
+    .filter((photo) => photo.latitude != null && photo.longitude != null)
+    .map((photo) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [photo.longitude!, photo.latitude!] },
+      properties: {
+        kind: 'photo',
+        imageUrl: photo.imageUrl,
+        caption: photo.caption,
+        takenAt: photo.takenAt.toISOString(),
+      },
+    }));
+
+  return {
+    type: 'FeatureCollection' as const,
+    features: [
+      {
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          // GeoJSON positions are [lng, lat, alt?]
+          coordinates: run.coordinates.map((coord) =>
+            coord.altitude != null
+              ? [coord.longitude, coord.latitude, coord.altitude]
+              : [coord.longitude, coord.latitude]
+          ),
+        },
+        properties: {
+          kind: 'track',
+          runId: run.id,
+          startTime: run.startTime.toISOString(),
+          endTime: run.endTime?.toISOString() ?? null,
+          distance: run.distance,
+          duration: run.duration,
+          avgPace: run.avgPace,
+          elevationGain: run.elevationGain,
+          elevationLoss: run.elevationLoss,
+          calories: run.calories,
+          coordTimes: run.coordinates.map((coord) => coord.timestamp.toISOString()),
+          heartRates: run.coordinates.map((coord) => coord.heartRate),
+          speeds: run.coordinates.map((coord) => coord.speed),
+          splits: run.splits.map((split) => ({
+            km: split.km,
+            unit: split.unit,
+            distance: split.distance,
+            time: split.time,
+            pace: split.pace,
+            elevation: split.elevation,
+            avgHeartRate: split.avgHeartRate,
+          })),
+        },
+      },
+      ...photoFeatures,
+    ],
+  };
+}
+
+// Moving distance (m) at each coordinate; paused segments add nothing
+function cumulativeDistances(coordinates: RunCoordinate[], pauses: PauseInterval[]): number[] {
+  const distances: number[] = [];
+  let total = 0;
+  coordinates.forEach((coord, i) => {
+    if (i > 0) {
+      const prev = coordinates[i - 1];
+      if (!isSegmentPaused(prev.timestamp, coord.timestamp, pauses)) {
+        total += haversineDistance(prev.latitude, prev.longitude, coord.latitude, coord.longitude) * 1000;
+      }
+    }
+    distances.push(total);
+  });
+  return distances;
+}
+
+// Time at which the moving distance reaches the given value, interpolated
+// between the two surrounding coordinates
+function timeAt(coordinates: RunCoordinate[], cumulative: number[], distance: number): number {
+  const i = cumulative.findIndex((d) => d >= distance);
+  if (i <= 0) return coordinates[Math.max(i, 0)].timestamp.getTime();
+
+  const from = coordinates[i - 1].timestamp.getTime();
+  const to = coordinates[i].timestamp.getTime();
+  const span = cumulative[i] - cumulative[i - 1];
+  return from + (span > 0 ? ((distance - cumulative[i - 1]) / span) * (to - from) : 0);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
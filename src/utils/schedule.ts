@@ -0,0 +1,16 @@
+/**
+ * Run a background task every `minutes` without keeping the process alive.
+ * A failed run is logged and the next one still happens. Returns the timer
+ * so it can be cleared on shutdown.
+ */
+export function scheduleSweep(name: string, task: () => Promise<unknown>, minutes: number): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+    }
+  }, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
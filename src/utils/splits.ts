@@ -0,0 +1,106 @@
+import { SplitUnit } from '@prisma/client';
+import { cleanAltitudes } from './elevation.js';
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+import { TrackPoint } from './trackStats.js';
+import { KM_PER_MILE } from './units.js';
+
+export const SPLIT_UNIT_KM: Record<SplitUnit, number> = {
+  KM: 1,
+  MILE: KM_PER_MILE,
+};
+
+// A trailing partial split shorter than this (in units) is dropped as noise
+const MIN_PARTIAL_SPLIT = 0.05;
+
+export interface GeneratedSplit {
+  km: number; // 1-based split index
+  unit: SplitUnit;
+  distance: number; // km covered by this split
+  time: number; // seconds
+  pace: number; // minutes per unit
+  elevation: number; // net change in smoothed altitude, m
+  avgHeartRate: number | null;
+}
+
+/**
+ * Cut an ordered track into splits at every full kilometre or mile. Boundary
+ * times and altitudes are interpolated between the two surrounding points,
+ * using the cleaned altitude series so that GPS noise and gaps don't skew
+ * split elevation.
+ * The final partial split is included with its actual distance, and time
+ * spent in paused segments is left out of every split.
+ */
+export function generateSplits(
+  points: TrackPoint[],
+  unit: SplitUnit,
+  pauses: PauseInterval[] = []
+): GeneratedSplit[] {
+  const unitKm = SPLIT_UNIT_KM[unit];
+  const splits: GeneratedSplit[] = [];
+  if (points.length < 2) return splits;
+
+  const altitudes = cleanAltitudes(points);
+  const altitudeAt = (i: number) => altitudes?.[i] ?? null;
+
+  let covered = 0;
+  let splitStartTime = points[0].timestamp.getTime();
+  let splitStartDistance = 0;
+  let splitStartAltitude = altitudeAt(0);
+  let heartRates: number[] = [];
+
+  const closeSplit = (endTime: number, endDistance: number, endAltitude: number | null) => {
+    const distance = endDistance - splitStartDistance;
+    const time = Math.round((endTime - splitStartTime) / 1000);
+    splits.push({
+      km: splits.length + 1,
+      unit,
+      distance,
+      time,
+      pace: distance > 0 ? time / 60 / (distance / unitKm) : 0,
+      elevation: splitStartAltitude != null && endAltitude != null ? endAltitude - splitStartAltitude : 0,
+      avgHeartRate: heartRates.length > 0
+        ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length)
+        : null,
+    });
+    splitStartTime = endTime;
+    splitStartDistance = endDistance;
+    splitStartAltitude = endAltitude;
+    heartRates = [];
+  };
+
+  if (points[0].heartRate != null) heartRates.push(points[0].heartRate);
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    const prevTime = prev.timestamp.getTime();
+    const segmentMs = point.timestamp.getTime() - prevTime;
+
+    if (isSegmentPaused(prev.timestamp, point.timestamp, pauses)) {
+      splitStartTime += segmentMs;
+      continue;
+    }
+
+    const segment = haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+
+    // A long segment may cross several boundaries
+    while (segment > 0 && covered + segment >= (splits.length + 1) * unitKm) {
+      const boundary = (splits.length + 1) * unitKm;
+      const ratio = (boundary - covered) / segment;
+      const altitude = altitudes
+        ? altitudes[i - 1] + (altitudes[i] - altitudes[i - 1]) * ratio
+        : null;
+      closeSplit(prevTime + segmentMs * ratio, boundary, altitude);
+    }
+
+    covered += segment;
+    if (point.heartRate != null) heartRates.push(point.heartRate);
+  }
+
+  if ((covered - splitStartDistance) / unitKm >= MIN_PARTIAL_SPLIT) {
+    closeSplit(points[points.length - 1].timestamp.getTime(), covered, altitudeAt(points.length - 1));
+  }
+
+  return splits;
+}
@@ -0,0 +1,90 @@
+import { computeElevation } from './elevation.js';
+import { haversineDistance } from './geo.js';
+import { isSegmentPaused, PauseInterval } from './pauses.js';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  timestamp: Date;
+  heartRate?: number | null;
+}
+
+export interface TrackStats {
+  distance: number; // km
+  duration: number; // moving time, seconds
+  elapsedTime: number; // first to last point, seconds
+  avgPace: number; // min/km over moving time
+  maxPace: number; // fastest pace, min/km
+  minPace: number; // slowest pace, min/km
+  elevation: number; // highest altitude, m
+  elevationGain: number;
+  elevationLoss: number;
+}
+
+// Below this many points the client's own numbers are more trustworthy
+export const MIN_POINTS_FOR_TRACK_STATS = 5;
+
+// Paces are measured over windows of at least this length so that a single
+// noisy fix cannot produce an absurd extreme
+const PACE_WINDOW_KM = 0.1;
+
+// Segments slower than this are treated as standing still (m/s)
+export const MOVING_SPEED_THRESHOLD = 0.5;
+
+/**
+ * Derive run stats from an ordered list of track points. Segments that overlap
+ * a pause contribute neither distance nor moving time.
+ */
+export function computeTrackStats(points: TrackPoint[], pauses: PauseInterval[] = []): TrackStats {
+  let distance = 0;
+  let movingMs = 0;
+  let fastest = Infinity;
+  let slowest = 0;
+
+  let windowDistance = 0;
+  let windowMs = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (isSegmentPaused(prev.timestamp, point.timestamp, pauses)) continue;
+
+    const segment = haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    const segmentMs = point.timestamp.getTime() - prev.timestamp.getTime();
+    distance += segment;
+
+    if (segmentMs <= 0 || (segment * 1000) / (segmentMs / 1000) < MOVING_SPEED_THRESHOLD) continue;
+
+    movingMs += segmentMs;
+    windowDistance += segment;
+    windowMs += segmentMs;
+
+    if (windowDistance >= PACE_WINDOW_KM) {
+      const pace = windowMs / 60000 / windowDistance;
+      fastest = Math.min(fastest, pace);
+      slowest = Math.max(slowest, pace);
+      windowDistance = 0;
+      windowMs = 0;
+    }
+  }
+
+  const duration = Math.round(movingMs / 1000);
+  const elapsedTime = points.length > 1
+    ? Math.round((points[points.length - 1].timestamp.getTime() - points[0].timestamp.getTime()) / 1000)
+    : 0;
+
+  const { highest, gain, loss } = computeElevation(points);
+
+  return {
+    distance,
+    duration,
+    elapsedTime,
+    avgPace: distance > 0 ? duration / 60 / distance : 0,
+    maxPace: fastest === Infinity ? 0 : fastest,
+    minPace: slowest,
+    elevation: highest,
+    elevationGain: gain,
+    elevationLoss: loss,
+  };
+}
@@ -0,0 +1,100 @@
+import { DEFAULT_MAX_HEART_RATE } from './heartRate.js';
+
+export interface LoadInput {
+  duration: number; // moving time, seconds
+  avgPace: number; // min/km
+  avgHeartRate: number | null;
+}
+
+export interface LoadSettings {
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+}
+
+export interface LoadPoint {
+  date: string; // YYYY-MM-DD
+  load: number; // that day's total
+  acute: number; // ~7 day average ("fatigue")
+  chronic: number; // ~42 day average ("fitness")
+  form: number; // chronic minus acute, as of the start of the day
+}
+
+const DEFAULT_RESTING_HEART_RATE = 60;
+
+// Pace held for about an hour at threshold effort, used when nothing better is known
+const DEFAULT_THRESHOLD_PACE = 5;
+
+// Banister TRIMP for an hour at threshold (HRR ~0.85) is ~167; scaling by this
+// puts heart-rate and pace based scores on the same "100 per threshold hour" scale
+const TRIMP_SCALE = 100 / 167;
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_DAYS = 42;
+
+/**
+ * Training load of a single run. Uses Banister TRIMP when heart rate is
+ * known, otherwise a pace-based intensity score (hours x IF^2 x 100).
+ */
+export function computeTrainingLoad(run: LoadInput, settings: LoadSettings): number {
+  if (run.duration <= 0) return 0;
+  const minutes = run.duration / 60;
+
+  if (run.avgHeartRate != null) {
+    const max = settings.maxHeartRate ?? DEFAULT_MAX_HEART_RATE;
+    const resting = settings.restingHeartRate ?? DEFAULT_RESTING_HEART_RATE;
+    const reserve = Math.min(1, Math.max(0, (run.avgHeartRate - resting) / (max - resting)));
+    const trimp = minutes * reserve * 0.64 * Math.exp(1.92 * reserve);
+    return round(trimp * TRIMP_SCALE);
+  }
+
+  if (run.avgPace <= 0) return 0;
+  const intensity = DEFAULT_THRESHOLD_PACE / run.avgPace;
+  return round((minutes / 60) * intensity * intensity * 100);
+}
+
+/**
+ * Exponentially weighted acute and chronic load per day between two dates
+ * (inclusive). Loads before `from` only warm up the averages.
+ */
+export function buildLoadSeries(dailyLoads: Map<string, number>, from: Date, to: Date): LoadPoint[] {
+  const dates = [...dailyLoads.keys()].sort();
+  const first = dates.length > 0 && dates[0] < toDateKey(from) ? new Date(dates[0]) : from;
+
+  const acuteDecay = 1 - Math.exp(-1 / ACUTE_DAYS);
+  const chronicDecay = 1 - Math.exp(-1 / CHRONIC_DAYS);
+
+  const series: LoadPoint[] = [];
+  let acute = 0;
+  let chronic = 0;
+
+  for (let day = startOfDay(first); day <= to; day = addDays(day, 1)) {
+    const date = toDateKey(day);
+    const load = dailyLoads.get(date) || 0;
+    const form = chronic - acute;
+
+    acute += (load - acute) * acuteDecay;
+    chronic += (load - chronic) * chronicDecay;
+
+    if (day >= startOfDay(from)) {
+      series.push({ date, load: round(load), acute: round(acute), chronic: round(chronic), form: round(form) });
+    }
+  }
+
+  return series;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(`${toDateKey(date)}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
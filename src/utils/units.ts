@@ -0,0 +1,110 @@
+import { UnitSystem } from '@prisma/client';
+
+export const KM_PER_MILE = 1.609344;
+export const FEET_PER_METRE = 3.28084;
+
+export const UNIT_LABELS: Record<
+  UnitSystem,
+  { distance: string; pace: string; elevation: string; temperature: string }
+> = {
+  METRIC: { distance: 'km', pace: 'min/km', elevation: 'm', temperature: '°C' },
+  IMPERIAL: { distance: 'mi', pace: 'min/mi', elevation: 'ft', temperature: '°F' },
+};
+
+export interface RunDisplay {
+  unitSystem: UnitSystem;
+  distance: number;
+  distanceUnit: string;
+  pace: number;
+  paceUnit: string;
+  elevationGain: number;
+  elevationUnit: string;
+  formatted: {
+    distance: string;
+    duration: string;
+    pace: string;
+    paceMetric: string;
+    paceImperial: string;
+    elevationGain: string;
+  };
+}
+
+// Stored values are always metric; these convert for display only
+
+export function convertDistance(km: number, system: UnitSystem): number {
+  return system === 'IMPERIAL' ? km / KM_PER_MILE : km;
+}
+
+export function convertPace(minPerKm: number, system: UnitSystem): number {
+  return system === 'IMPERIAL' ? minPerKm * KM_PER_MILE : minPerKm;
+}
+
+export function convertElevation(metres: number, system: UnitSystem): number {
+  return system === 'IMPERIAL' ? metres * FEET_PER_METRE : metres;
+}
+
+export function convertTemperature(celsius: number, system: UnitSystem): number {
+  return system === 'IMPERIAL' ? celsius * 1.8 + 32 : celsius;
+}
+
+export function formatDistance(km: number, system: UnitSystem, digits = 2): string {
+  return `${convertDistance(km, system).toFixed(digits)} ${UNIT_LABELS[system].distance}`;
+}
+
+/**
+ * Pace as m:ss per km or per mile; "--" when there is no pace
+ */
+export function formatPace(minPerKm: number, system: UnitSystem): string {
+  if (!Number.isFinite(minPerKm) || minPerKm <= 0) return `-- /${UNIT_LABELS[system].distance}`;
+
+  const totalSeconds = Math.round(convertPace(minPerKm, system) * 60);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${String(s).padStart(2, '0')} /${UNIT_LABELS[system].distance}`;
+}
+
+export function formatElevation(metres: number, system: UnitSystem): string {
+  return `${Math.round(convertElevation(metres, system))} ${UNIT_LABELS[system].elevation}`;
+}
+
+export function formatTemperature(celsius: number, system: UnitSystem): string {
+  return `${Math.round(convertTemperature(celsius, system))} ${UNIT_LABELS[system].temperature}`;
+}
+
+/**
+ * Seconds as h:mm:ss or m:ss
+ */
+export function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/**
+ * Converted values and ready-to-show strings for a run or a set of totals
+ */
+export function describeRun(
+  run: { distance: number; duration: number; avgPace: number; elevationGain?: number },
+  system: UnitSystem
+): RunDisplay {
+  const elevationGain = run.elevationGain ?? 0;
+  return {
+    unitSystem: system,
+    distance: convertDistance(run.distance, system),
+    distanceUnit: UNIT_LABELS[system].distance,
+    pace: convertPace(run.avgPace, system),
+    paceUnit: UNIT_LABELS[system].pace,
+    elevationGain: convertElevation(elevationGain, system),
+    elevationUnit: UNIT_LABELS[system].elevation,
+    formatted: {
+      distance: formatDistance(run.distance, system),
+      duration: formatDuration(run.duration),
+      pace: formatPace(run.avgPace, system),
+      paceMetric: formatPace(run.avgPace, 'METRIC'),
+      paceImperial: formatPace(run.avgPace, 'IMPERIAL'),
+      elevationGain: formatElevation(elevationGain, system),
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { UnitSystem } from '@prisma/client';
+import { formatTemperature } from './units.js';
+
+export const WEATHER_CONDITIONS = ['CLEAR', 'PARTLY_CLOUDY', 'CLOUDY', 'FOG', 'RAIN', 'SNOW', 'STORM'] as const;
+
+export type WeatherCondition = (typeof WEATHER_CONDITIONS)[number];
+
+export interface RunWeather {
+  temperature: number | null; // °C
+  feelsLike: number | null; // °C
+  humidity: number | null; // %
+  windSpeed: number | null; // m/s
+  windDirection: number | null; // degrees the wind blows from
+  conditions: WeatherCondition | null;
+  description: string | null;
+  source: string; // provider name, or "client" when sent by the app
+}
+
+export interface TemperatureBand {
+  min: number | null; // inclusive, °C
+  max: number | null; // exclusive, °C
+}
+
+export interface TemperatureBandStats extends TemperatureBand {
+  label: string;
+  runs: number;
+  distance: number; // km
+  duration: number; // seconds
+  avgPace: number; // min/km, weighted by distance
+}
+
+export const TEMPERATURE_BANDS: TemperatureBand[] = [
+  { min: null, max: 0 },
+  { min: 0, max: 5 },
+  { min: 5, max: 10 },
+  { min: 10, max: 15 },
+  { min: 15, max: 20 },
+  { min: 20, max: 25 },
+  { min: 25, max: 30 },
+  { min: 30, max: null },
+];
+
+/**
+ * Band a temperature falls into, by index into TEMPERATURE_BANDS
+ */
+export function temperatureBandIndex(temperature: number): number {
+  return TEMPERATURE_BANDS.findIndex(
+    (band) => (band.min === null || temperature >= band.min) && (band.max === null || temperature < band.max)
+  );
+}
+
+/**
+ * Band label in the user's units, e.g. "10 °C to 15 °C" or "below 32 °F"
+ */
+export function temperatureBandLabel(band: TemperatureBand, system: UnitSystem): string {
+  if (band.min === null) return `below ${formatTemperature(band.max!, system)}`;
+  if (band.max === null) return `${formatTemperature(band.min, system)} and above`;
+  return `${formatTemperature(band.min, system)} to ${formatTemperature(band.max, system)}`;
+}
+
+/**
+ * Distance, time and average pace of runs grouped by the temperature they were
+ * run in. Every band is returned so charts keep a fixed axis; runs without a
+ * recorded temperature are left out.
+ */
+export function paceByTemperature(
+  runs: Array<{ distance: number; duration: number; weather: unknown }>,
+  system: UnitSystem
+): TemperatureBandStats[] {
+  const bands = TEMPERATURE_BANDS.map((band) => ({
+    ...band,
+    label: temperatureBandLabel(band, system),
+    runs: 0,
+    distance: 0,
+    duration: 0,
+    avgPace: 0,
+  }));
+
+  for (const run of runs) {
+    const temperature = parseRunWeather(run.weather)?.temperature;
+    if (temperature == null || run.distance <= 0) continue;
+
+    const band = bands[temperatureBandIndex(temperature)];
+    band.runs++;
+    band.distance += run.distance;
+    band.duration += run.duration;
+  }
+
+  for (const band of bands) {
+    band.avgPace = band.distance > 0 ? band.duration / 60 / band.distance : 0;
+  }
+
+  return bands;
+}
+
+/**
+ * Apparent temperature: wind chill when cold and windy, heat index when hot
+ * and humid, otherwise the air temperature
+ */
+export function feelsLike(temperature: number, humidity: number | null, windSpeed: number | null): number {
+  const windKmh = (windSpeed ?? 0) * 3.6;
+
+  if (temperature <= 10 && windKmh > 4.8) {
+    const v = Math.pow(windKmh, 0.16);
+    return 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v;
+  }
+
+  if (temperature >= 27 && humidity != null && humidity >= 40) {
+    // Rothfusz regression, in °F
+    const t = temperature * 1.8 + 32;
+    const r = humidity;
+    const hi =
+      -42.379 + 2.04901523 * t + 10.14333127 * r - 0.22475541 * t * r -
+      0.00683783 * t * t - 0.05481717 * r * r + 0.00122874 * t * t * r +
+      0.00085282 * t * r * r - 0.00000199 * t * t * r * r;
+    return (hi - 32) / 1.8;
+  }
+
+  return temperature;
+}
+
+/**
+ * Read a stored `Run.weather` value; older runs hold a plain string
+ */
+export function parseRunWeather(value: unknown): RunWeather | null {
+  if (typeof value === 'string') {
+    return {
+      temperature: null,
+      feelsLike: null,
+      humidity: null,
+      windSpeed: null,
+      windDirection: null,
+      conditions: null,
+      description: value,
+      source: 'client',
+    };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const weather = value as Partial<RunWeather>;
+  const numberOrNull = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) ? n : null);
+  return {
+    temperature: numberOrNull(weather.temperature),
+    feelsLike: numberOrNull(weather.feelsLike),
+    humidity: numberOrNull(weather.humidity),
+    windSpeed: numberOrNull(weather.windSpeed),
+    windDirection: numberOrNull(weather.windDirection),
+    conditions: WEATHER_CONDITIONS.includes(weather.conditions as WeatherCondition)
+      ? (weather.conditions as WeatherCondition)
+      : null,
+    description: typeof weather.description === 'string' ? weather.description : null,
+    source: typeof weather.source === 'string' ? weather.source : 'client',
+  };
+}
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 
 // Common schemas
+export const runVisibilitySchema = z.enum(['PUBLIC', 'FOLLOWERS', 'PRIVATE']);
+
 export const paginationSchema = z.object({
   cursor: z.string().uuid().optional(),
   limit: z.coerce.number().int().min(1).max(100).default(20),
@@ -23,8 +25,32 @@ export const updateProfileSchema = z.object({
   bio: z.string().max(500).optional(),
   location: z.string().max(100).optional(),
   isPublic: z.boolean().optional(),
+  defaultRunVisibility: runVisibilitySchema.optional(),
   avatarUrl: z.string().url().optional().nullable(),
   isLocationPublic: z.boolean().optional(),
+  unitSystem: z.enum(['METRIC', 'IMPERIAL']).optional(),
+  maxHeartRate: z.number().int().min(100).max(250).optional().nullable(),
+  restingHeartRate: z.number().int().min(25).max(120).optional().nullable(),
+  // Lower bounds of zones 2-5; an empty array goes back to computed zones
+  heartRateZones: z
+    .array(z.number().int().min(40).max(250))
+    .refine((zones) => zones.length === 0 || zones.length === 4, 'Provide 4 zone boundaries or none')
+    .refine((zones) => zones.every((bpm, i) => i === 0 || bpm > zones[i - 1]), 'Zone boundaries must increase')
+    .optional(),
+  weightKg: z.number().min(20).max(300).optional().nullable(),
+  heightCm: z.number().min(100).max(250).optional().nullable(),
+  sex: z.enum(['MALE', 'FEMALE', 'OTHER']).optional().nullable(),
+  birthDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+    .transform((val) => new Date(`${val}T00:00:00Z`))
+    .refine((date) => !isNaN(date.getTime()) && date < new Date(), 'Invalid birth date')
+    .optional()
+    .nullable(),
+  isWeightPublic: z.boolean().optional(),
+  isHeightPublic: z.boolean().optional(),
+  isSexPublic: z.boolean().optional(),
+  isBirthDatePublic: z.boolean().optional(),
 });
 
 export const updateLocationSchema = z.object({
@@ -32,6 +58,15 @@ export const updateLocationSchema = z.object({
   longitude: z.number().min(-180).max(180),
 });
 
+export const privacyZoneSchema = z.object({
+  name: z.string().max(50).optional().nullable(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radius: z.number().min(100).max(2000).default(500), // m
+});
+
+export const updatePrivacyZoneSchema = privacyZoneSchema.partial();
+
 export const nearbyUsersQuerySchema = z.object({
   latitude: z.coerce.number().min(-90).max(90),
   longitude: z.coerce.number().min(-180).max(180),
@@ -46,6 +81,8 @@ export const searchUsersQuerySchema = z.object({
 // Run schemas
 export const startRunSchema = z.object({
   routeId: z.string().uuid().optional(),
+  gearId: z.string().optional().nullable(), // omitted: the default gear
+  visibility: runVisibilitySchema.optional(), // omitted: the user's default
   latitude: z.number().min(-90).max(90).optional(),
   longitude: z.number().min(-180).max(180).optional(),
 });
@@ -63,16 +100,35 @@ export const runCoordinateSchema = z.object({
 
 export const addCoordinatesSchema = z.object({
   coordinates: z.array(runCoordinateSchema).min(1).max(1000),
+  maxAccuracy: z.number().min(1).max(1000).optional(), // metres; overrides the server default
+  // Either identifies the batch so that retried uploads are not stored twice
+  sequence: z.number().int().min(0).optional(),
+  batchId: z.string().min(1).max(100).optional(),
 });
 
 export const runSplitSchema = z.object({
   km: z.number().int().min(1),
+  unit: z.enum(['KM', 'MILE']).optional().default('KM'),
   time: z.number().min(0),
   pace: z.number().min(0),
   elevation: z.number().optional().default(0),
   avgHeartRate: z.number().int().min(0).max(300).optional().nullable(),
 });
 
+// Older clients send a short free-form description instead of an object
+export const runWeatherSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? { description: value } : value),
+  z.object({
+    temperature: z.number().min(-60).max(60).optional().nullable(), // °C
+    feelsLike: z.number().min(-80).max(80).optional().nullable(), // °C
+    humidity: z.number().min(0).max(100).optional().nullable(), // %
+    windSpeed: z.number().min(0).max(100).optional().nullable(), // m/s
+    windDirection: z.number().min(0).max(360).optional().nullable(), // degrees
+    conditions: z.enum(['CLEAR', 'PARTLY_CLOUDY', 'CLOUDY', 'FOG', 'RAIN', 'SNOW', 'STORM']).optional().nullable(),
+    description: z.string().max(100).optional().nullable(),
+  })
+);
+
 export const completeRunSchema = z.object({
   distance: z.number().min(0).default(0),
   duration: z.number().int().min(0).default(0),
@@ -84,10 +140,65 @@ export const completeRunSchema = z.object({
   elevationGain: z.number().min(0).optional().default(0),
   elevationLoss: z.number().min(0).optional().default(0),
   splits: z.array(runSplitSchema).optional(),
-  weather: z.string().max(100).optional().nullable(),
+  weather: runWeatherSchema.optional().nullable(),
+  gearId: z.string().optional().nullable(),
+  visibility: runVisibilitySchema.optional(),
   mapSnapshotUrl: z.string().url().optional().nullable(),
 });
 
+export const manualRunSchema = z.object({
+  startTime: z.string().datetime(),
+  distance: z.number().min(0.01).max(500), // km
+  duration: z.number().int().min(1), // seconds
+  calories: z.number().int().min(0).optional(),
+  avgHeartRate: z.number().int().min(0).max(300).optional().nullable(),
+  maxHeartRate: z.number().int().min(0).max(300).optional().nullable(),
+  splits: z.array(runSplitSchema).optional(),
+  notes: z.string().max(2000).optional(),
+  gearId: z.string().optional().nullable(),
+  visibility: runVisibilitySchema.optional(),
+});
+
+export const updateRunSchema = z.object({
+  visibility: runVisibilitySchema.optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+// Raw XML uploads are wrapped so both content types validate the same way
+export const importGpxSchema = z.preprocess(
+  (val) => (typeof val === 'string' ? { gpx: val } : val),
+  z.object({
+    gpx: z.string().min(1, 'GPX content is required'),
+  })
+);
+
+export const exportRunQuerySchema = z.object({
+  format: z.enum(['gpx', 'tcx', 'geojson']).default('gpx'),
+});
+
+// Trim window by timestamps or by coordinate index (inclusive); omitted ends keep the original
+export const trimRunSchema = z
+  .object({
+    startTime: z.string().datetime().optional(),
+    endTime: z.string().datetime().optional(),
+    startIndex: z.number().int().min(0).optional(),
+    endIndex: z.number().int().min(0).optional(),
+  })
+  .refine(
+    (val) =>
+      (val.startTime !== undefined || val.endTime !== undefined) !==
+      (val.startIndex !== undefined || val.endIndex !== undefined),
+    'Trim by time or by index, not both'
+  );
+
+export const mergeRunsSchema = z.object({
+  runIds: z
+    .array(z.string())
+    .min(2)
+    .max(10)
+    .refine((ids) => new Set(ids).size === ids.length, 'Run ids must be unique'),
+});
+
 export const runsQuerySchema = z.object({
   cursor: z.string().uuid().optional(),
   limit: z.coerce.number().int().min(1).max(100).default(20),
@@ -100,6 +211,10 @@ export const runStatsQuerySchema = z.object({
   period: z.enum(['week', 'month', 'year', 'all']).default('all'),
 });
 
+export const trainingLoadQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90),
+});
+
 export const addRunPhotoSchema = z.object({
   imageUrl: z.string().url(),
   latitude: z.number().min(-90).max(90).optional(),
@@ -107,6 +222,43 @@ export const addRunPhotoSchema = z.object({
   caption: z.string().max(500).optional(),
 });
 
+// Goal schemas
+export const createGoalSchema = z.object({
+  metric: z.enum(['DISTANCE', 'RUNS', 'DURATION']),
+  period: z.enum(['WEEK', 'MONTH', 'YEAR']),
+  target: z.number().positive(), // km, runs or seconds
+});
+
+export const updateGoalSchema = z.object({
+  target: z.number().positive().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Gear schemas
+export const createGearSchema = z.object({
+  type: z.enum(['SHOES', 'APPAREL', 'DEVICE', 'OTHER']).default('SHOES'),
+  name: z.string().min(1).max(100),
+  brand: z.string().max(100).optional().nullable(),
+  model: z.string().max(100).optional().nullable(),
+  initialDistance: z.number().min(0).max(100000).default(0), // km
+  retirementDistance: z.number().positive().max(100000).optional().nullable(), // km
+  isDefault: z.boolean().optional(),
+});
+
+export const updateGearSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  brand: z.string().max(100).optional().nullable(),
+  model: z.string().max(100).optional().nullable(),
+  initialDistance: z.number().min(0).max(100000).optional(),
+  retirementDistance: z.number().positive().max(100000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isRetired: z.boolean().optional(),
+});
+
+export const gearQuerySchema = z.object({
+  includeRetired: z.enum(['true', 'false']).optional(),
+});
+
 // Post schemas
 export const createPostSchema = z.object({
   runId: z.string().uuid().optional(),
@@ -123,7 +275,13 @@ export const updatePostSchema = z.object({
   isPublic: z.boolean().optional(),
 });
 
-export const feedQuerySchema = z.object({
+// Run tracks are returned as an encoded polyline; raw points only on request
+export const trackQuerySchema = z.object({
+  includePoints: z.enum(['true', 'false']).optional(),
+  tolerance: z.coerce.number().min(0).max(100).optional(), // metres
+});
+
+export const feedQuerySchema = trackQuerySchema.extend({
   cursor: z.string().uuid().optional(),
   limit: z.coerce.number().int().min(1).max(50).default(20),
   type: z.enum(['following', 'nearby', 'discover']).default('following'),